@@ -0,0 +1,88 @@
+/**
+ * Minimal in-memory stand-in for the chrome.* APIs the context engine uses,
+ * so it can run under Node. Import this before anything from src/.
+ */
+
+type StorageItems = Record<string, unknown>;
+type ChangeListener = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => void;
+
+let items: StorageItems = {};
+const listeners: ChangeListener[] = [];
+
+function notify(keys: Iterable<string>, previous: StorageItems): void {
+  const changes: Record<string, chrome.storage.StorageChange> = {};
+  for (const key of keys) {
+    changes[key] = { oldValue: previous[key], newValue: items[key] };
+  }
+  if (Object.keys(changes).length === 0) return;
+  listeners.forEach(listener => listener(changes, "local"));
+}
+
+function pick(keys?: string | string[] | StorageItems | null): StorageItems {
+  if (keys == null) return structuredClone(items);
+  if (typeof keys === "string") keys = [keys];
+
+  const result: StorageItems = {};
+  if (Array.isArray(keys)) {
+    for (const key of keys) {
+      if (key in items) result[key] = structuredClone(items[key]);
+    }
+  } else {
+    for (const [key, fallback] of Object.entries(keys)) {
+      result[key] = key in items ? structuredClone(items[key]) : fallback;
+    }
+  }
+  return result;
+}
+
+// Supports both the callback and the promise form of each call
+const local = {
+  get(keys?: string | string[] | StorageItems | null, callback?: (result: StorageItems) => void) {
+    const result = pick(keys);
+    if (callback) {
+      callback(result);
+      return undefined;
+    }
+    return Promise.resolve(result);
+  },
+  set(data: StorageItems, callback?: () => void) {
+    const previous = { ...items };
+    items = { ...items, ...structuredClone(data) };
+    notify(Object.keys(data), previous);
+    callback?.();
+    return callback ? undefined : Promise.resolve();
+  },
+  remove(keys: string | string[], callback?: () => void) {
+    const previous = { ...items };
+    for (const key of Array.isArray(keys) ? keys : [keys]) {
+      delete items[key];
+    }
+    notify(Array.isArray(keys) ? keys : [keys], previous);
+    callback?.();
+    return callback ? undefined : Promise.resolve();
+  }
+};
+
+(globalThis as unknown as { chrome: unknown }).chrome = {
+  storage: {
+    local,
+    onChanged: {
+      addListener: (listener: ChangeListener) => listeners.push(listener)
+    }
+  },
+  runtime: {
+    lastError: undefined,
+    // The sentence encoder isn't reachable outside the extension, so the
+    // engine falls back to its keyword matcher
+    getURL: (path: string) => `chrome-extension://evaluation/${path}`
+  }
+};
+
+/**
+ * Replace everything in storage, telling the engine's caches about it
+ */
+export function resetStorage(seed: StorageItems = {}): void {
+  const previous = items;
+  items = structuredClone(seed);
+  notify(new Set([...Object.keys(previous), ...Object.keys(items)]), previous);
+}
@@ -0,0 +1,161 @@
+/**
+ * Precision/recall, confusion matrix and baseline comparison for evaluation runs
+ */
+
+/** Classifier output for one labelled fixture */
+export interface Prediction {
+  id: string;
+  label: string;
+  predicted: string;
+  confidence: number;
+}
+
+export interface ContextMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Fixtures labelled with the context */
+  support: number;
+}
+
+/** Result of an evaluation run, also the format of the saved baseline */
+export interface EvaluationReport {
+  total: number;
+  accuracy: number;
+  contexts: Record<string, ContextMetrics>;
+  /** Label → predicted context → count */
+  confusion: Record<string, Record<string, number>>;
+  /** Fixture ID → predicted context */
+  predictions: Record<string, string>;
+}
+
+/**
+ * Score predictions against their labels
+ */
+export function evaluate(predictions: Prediction[]): EvaluationReport {
+  const confusion: Record<string, Record<string, number>> = {};
+  const predictedCounts: Record<string, number> = {};
+  let correct = 0;
+
+  for (const { label, predicted } of predictions) {
+    confusion[label] = confusion[label] || {};
+    confusion[label][predicted] = (confusion[label][predicted] || 0) + 1;
+    predictedCounts[predicted] = (predictedCounts[predicted] || 0) + 1;
+    if (label === predicted) correct++;
+  }
+
+  const contexts: Record<string, ContextMetrics> = {};
+  for (const context of Object.keys(confusion).sort()) {
+    const truePositives = confusion[context][context] || 0;
+    const support = Object.values(confusion[context]).reduce((sum, n) => sum + n, 0);
+    const precision = ratio(truePositives, predictedCounts[context] || 0);
+    const recall = ratio(truePositives, support);
+    contexts[context] = {
+      precision,
+      recall,
+      f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+      support
+    };
+  }
+
+  return {
+    total: predictions.length,
+    accuracy: ratio(correct, predictions.length),
+    contexts,
+    confusion,
+    predictions: Object.fromEntries(predictions.map(p => [p.id, p.predicted]))
+  };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Per-context precision, recall and F1 as a table
+ */
+export function formatMetrics(report: EvaluationReport): string {
+  const rows = [["Context", "Precision", "Recall", "F1", "Support"]];
+  for (const [context, m] of Object.entries(report.contexts)) {
+    rows.push([context, percent(m.precision), percent(m.recall), percent(m.f1), String(m.support)]);
+  }
+  rows.push(["Overall accuracy", percent(report.accuracy), "", "", String(report.total)]);
+  return formatTable(rows);
+}
+
+/**
+ * Confusion matrix with labels as rows and predictions as columns
+ */
+export function formatConfusionMatrix(report: EvaluationReport): string {
+  const labels = Object.keys(report.confusion).sort();
+  const predicted = Array.from(new Set([
+    ...labels,
+    ...Object.values(report.confusion).flatMap(row => Object.keys(row))
+  ])).sort();
+
+  const rows = [["label \\ predicted", ...predicted]];
+  for (const label of labels) {
+    rows.push([label, ...predicted.map(p => String(report.confusion[label][p] || "·"))]);
+  }
+  return formatTable(rows);
+}
+
+/**
+ * Compare a run against the saved baseline
+ *
+ * @returns Report lines and the fixtures the baseline got right that are now wrong
+ */
+export function diffReports(
+  baseline: EvaluationReport,
+  current: EvaluationReport,
+  labels: Record<string, string>
+): { lines: string[]; regressions: string[] } {
+  const lines = [`Accuracy: ${percent(baseline.accuracy)} → ${percent(current.accuracy)} (${signed(current.accuracy - baseline.accuracy)})`];
+
+  for (const [context, m] of Object.entries(current.contexts)) {
+    const before = baseline.contexts[context];
+    if (!before) {
+      lines.push(`${context}: new in this run`);
+    } else if (before.precision !== m.precision || before.recall !== m.recall) {
+      lines.push(`${context}: precision ${signed(m.precision - before.precision)}, recall ${signed(m.recall - before.recall)}`);
+    }
+  }
+
+  const regressions: string[] = [];
+  for (const [id, predicted] of Object.entries(current.predictions)) {
+    const previous = baseline.predictions[id];
+    if (previous === undefined) {
+      lines.push(`  new      ${id}: ${predicted} (label ${labels[id]})`);
+    } else if (previous !== predicted) {
+      if (previous === labels[id]) {
+        regressions.push(id);
+        lines.push(`  broke    ${id}: ${previous} → ${predicted}`);
+      } else if (predicted === labels[id]) {
+        lines.push(`  fixed    ${id}: ${previous} → ${predicted}`);
+      } else {
+        lines.push(`  changed  ${id}: ${previous} → ${predicted} (label ${labels[id]})`);
+      }
+    }
+  }
+  for (const id of Object.keys(baseline.predictions)) {
+    if (!(id in current.predictions)) lines.push(`  removed  ${id}`);
+  }
+
+  return { lines, regressions };
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signed(value: number): string {
+  const points = (value * 100).toFixed(1);
+  return `${value >= 0 ? "+" : ""}${points} pts`;
+}
+
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, col) => Math.max(...rows.map(row => (row[col] || "").length)));
+  return rows
+    .map(row => row.map((cell, col) => col === 0 ? cell.padEnd(widths[col]) : cell.padStart(widths[col])).join("  "))
+    .join("\n");
+}
@@ -0,0 +1,146 @@
+/**
+ * Offline classifier evaluation: runs labelled PageData fixtures through
+ * classifyPageContext under Node and reports precision, recall and a
+ * confusion matrix, compared against a saved baseline.
+ *
+ *   npm run eval
+ *   npm run eval -- --update-baseline
+ *   npm run eval -- --fixtures path/to/fixtures --seed storage.json --verbose
+ *
+ * Exits with 1 when a fixture the baseline classified correctly is now wrong.
+ */
+import { resetStorage } from "./chromeStub";
+import * as fs from "fs";
+import * as path from "path";
+import { classifyPageContext } from "../src/lib/contextEngine";
+import { PageFixture } from "../src/types/index";
+import { diffReports, evaluate, EvaluationReport, formatConfusionMatrix, formatMetrics, Prediction } from "./metrics";
+
+// Relative to the repository root, where npm runs scripts
+const DEFAULT_FIXTURES_DIR = "eval/fixtures";
+const DEFAULT_BASELINE = "eval/baseline.json";
+
+interface Options {
+  fixturesDir: string;
+  baselinePath: string;
+  updateBaseline: boolean;
+  seedPath?: string;
+  verbose: boolean;
+}
+
+function parseArgs(args: string[]): Options {
+  const options: Options = {
+    fixturesDir: DEFAULT_FIXTURES_DIR,
+    baselinePath: DEFAULT_BASELINE,
+    updateBaseline: false,
+    verbose: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case "--fixtures": options.fixturesDir = args[++i]; break;
+      case "--baseline": options.baselinePath = args[++i]; break;
+      case "--seed": options.seedPath = args[++i]; break;
+      case "--update-baseline": options.updateBaseline = true; break;
+      case "--verbose": options.verbose = true; break;
+      default: throw new Error(`Unknown option ${args[i]}`);
+    }
+  }
+  return options;
+}
+
+/**
+ * Load every fixture under a directory. A file holds one fixture or an array
+ * of them; IDs are the file path relative to the directory (plus #index).
+ */
+function loadFixtures(dir: string): Array<{ id: string; fixture: PageFixture }> {
+  const fixtures: Array<{ id: string; fixture: PageFixture }> = [];
+
+  const walk = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const fullPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+        continue;
+      }
+      if (!entry.name.endsWith(".json")) continue;
+
+      const id = path.relative(dir, fullPath).split(path.sep).join("/");
+      const data = JSON.parse(fs.readFileSync(fullPath, "utf8"));
+      const items: PageFixture[] = Array.isArray(data) ? data : [data];
+      items.forEach((fixture, index) => {
+        if (!fixture.label || !fixture.pageData?.url) {
+          throw new Error(`${id}: fixtures need a label and pageData with a url`);
+        }
+        fixtures.push({ id: Array.isArray(data) ? `${id}#${index}` : id, fixture });
+      });
+    }
+  };
+
+  walk(dir);
+  return fixtures;
+}
+
+/**
+ * Run a function with the engine's console chatter silenced
+ */
+async function quietly<T>(run: () => Promise<T>): Promise<T> {
+  const { log, info, warn } = console;
+  console.log = console.info = console.warn = () => undefined;
+  try {
+    return await run();
+  } finally {
+    Object.assign(console, { log, info, warn });
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+  const seed = options.seedPath ? JSON.parse(fs.readFileSync(options.seedPath, "utf8")) : {};
+  const fixtures = loadFixtures(options.fixturesDir);
+  if (fixtures.length === 0) {
+    throw new Error(`No fixtures found in ${options.fixturesDir}`);
+  }
+
+  const predictions: Prediction[] = [];
+  for (const { id, fixture } of fixtures) {
+    // Every page starts from the same storage, so results don't depend on fixture order
+    resetStorage(seed);
+    const classify = () => classifyPageContext(fixture.pageData);
+    const result = options.verbose ? await classify() : await quietly(classify);
+    const predicted = result.uncertain ? "Uncertain" : result.primaryContext;
+    predictions.push({ id, label: fixture.label, predicted, confidence: result.confidence });
+
+    if (options.verbose || predicted !== fixture.label) {
+      console.log(`${predicted === fixture.label ? "ok  " : "MISS"} ${id}: ${predicted} ` +
+        `(${result.confidence.toFixed(2)}), label ${fixture.label}`);
+    }
+  }
+
+  const report = evaluate(predictions);
+  console.log(`\n${formatMetrics(report)}\n\n${formatConfusionMatrix(report)}\n`);
+
+  const labels = Object.fromEntries(predictions.map(p => [p.id, p.label]));
+  let regressions: string[] = [];
+  if (fs.existsSync(options.baselinePath)) {
+    const baseline: EvaluationReport = JSON.parse(fs.readFileSync(options.baselinePath, "utf8"));
+    const diff = diffReports(baseline, report, labels);
+    regressions = diff.regressions;
+    console.log(`Compared with ${options.baselinePath}:\n${diff.lines.join("\n")}\n`);
+  } else {
+    console.log(`No baseline at ${options.baselinePath}; run with --update-baseline to save one.\n`);
+  }
+
+  if (options.updateBaseline) {
+    fs.writeFileSync(options.baselinePath, JSON.stringify(report, null, 2) + "\n");
+    console.log(`Baseline saved to ${options.baselinePath}`);
+  } else if (regressions.length > 0) {
+    console.error(`${regressions.length} fixture(s) regressed against the baseline`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,31 @@
+import { getStorage, setStorage } from "./storageApi";
+import { ClassifierSettings } from "../types/index";
+
+export const DEFAULT_CLASSIFIER_SETTINGS: ClassifierSettings = {
+  titleWeight: 0.5,
+  descriptionWeight: 0.4,
+  keywordsWeight: 0.3,
+  tfidfWeight: 0.5,
+  minConfidence: 0.2,
+  minMargin: 0.05,
+  askWhenUncertain: false,
+  cacheTtlMinutes: 10
+};
+
+/**
+ * Get the current classifier settings
+ */
+export async function getClassifierSettings(): Promise<ClassifierSettings> {
+  const { classifierSettings } = await getStorage(["classifierSettings"]);
+  return { ...DEFAULT_CLASSIFIER_SETTINGS, ...classifierSettings };
+}
+
+/**
+ * Update classifier settings
+ */
+export async function updateClassifierSettings(settings: Partial<ClassifierSettings>): Promise<void> {
+  const currentSettings = await getClassifierSettings();
+  await setStorage({
+    classifierSettings: { ...currentSettings, ...settings }
+  });
+}
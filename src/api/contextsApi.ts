@@ -0,0 +1,320 @@
+import { getStorage, setStorage, getFocusState, setFocusState } from "./storageApi";
+import { ContextDefinition, FocusState } from "../types/index";
+import { DEFAULT_CONTEXT_KEYWORDS } from "../lib/contextEngine/defaultKeywords";
+
+// Built-in contexts, used until the user edits the registry
+export const DEFAULT_CONTEXTS: ContextDefinition[] = [
+  { name: "Work", color: "yellow", description: "Productivity apps, email, documents, meetings, project management" },
+  { name: "Development", color: "orange", description: "Programming, coding, software development, technical docs" },
+  { name: "Research", color: "pink", description: "Academic resources, scientific papers, research databases" },
+  { name: "Learning", color: "blue", description: "Educational content, courses, tutorials, learning platforms" },
+  { name: "Entertainment", color: "green", description: "Movies, videos, games, music, streaming services" },
+  { name: "Social", color: "cyan", description: "Social media, messaging, forums, communities" },
+  { name: "Shopping", color: "purple", description: "Online stores, e-commerce, product reviews" },
+  { name: "News", color: "red", description: "News sites, current events, breaking stories" },
+  { name: "Docs", parent: "Development", color: "orange", description: "API references, manuals, technical documentation" },
+  { name: "Music", parent: "Entertainment", color: "green", description: "Music streaming, playlists, artists, lyrics" },
+  { name: "Video", parent: "Entertainment", color: "green", description: "Video streaming, movies, TV shows, clips" }
+];
+
+// Separator used when showing a sub-context with its parent
+export const CONTEXT_PATH_SEPARATOR = " › ";
+
+// Tab group colors supported by Chrome
+export const CONTEXT_COLORS: chrome.tabGroups.ColorEnum[] = [
+  "grey", "blue", "red", "yellow", "green", "pink", "purple", "cyan", "orange"
+];
+
+// Names the classifier uses for its own states; they can't be user contexts
+const RESERVED_NAMES = ["General", "Unknown", "Uncertain"];
+
+/**
+ * Get all registered contexts
+ */
+export async function getContexts(): Promise<ContextDefinition[]> {
+  const { contexts } = await getStorage(["contexts"]);
+  return Array.isArray(contexts) && contexts.length > 0 ? contexts : DEFAULT_CONTEXTS;
+}
+
+/**
+ * Get the names of all registered contexts
+ */
+export async function getContextNames(): Promise<string[]> {
+  const contexts = await getContexts();
+  return contexts.map(c => c.name);
+}
+
+/**
+ * Get the names renamed contexts were known by, mapped to their current names
+ */
+export async function getContextAliases(): Promise<Record<string, string>> {
+  const { contextAliases = {} } = await getStorage(["contextAliases"]);
+  return contextAliases;
+}
+
+/**
+ * Get the parent of a sub-context, or undefined for a top-level context
+ */
+export function getParentContext(name: string, contexts: ContextDefinition[]): string | undefined {
+  return contexts.find(c => c.name === name)?.parent;
+}
+
+/**
+ * Get the top-level context a context belongs to (itself if it has no parent)
+ */
+export function getTopLevelContext(name: string, contexts: ContextDefinition[]): string {
+  return getParentContext(name, contexts) ?? name;
+}
+
+/**
+ * Show a context with its parent, e.g. "Entertainment › Music"
+ */
+export function formatContextPath(name: string, contexts: ContextDefinition[]): string {
+  const parent = getParentContext(name, contexts);
+  return parent ? `${parent}${CONTEXT_PATH_SEPARATOR}${name}` : name;
+}
+
+/**
+ * Order contexts so every sub-context follows its parent
+ */
+export function sortContextTree(contexts: ContextDefinition[]): ContextDefinition[] {
+  const topLevel = contexts.filter(c => !c.parent || !contexts.some(p => p.name === c.parent));
+  return topLevel.flatMap(parent => [parent, ...contexts.filter(c => c.parent === parent.name)]);
+}
+
+/**
+ * Whether a context is allowed in a focus session. The context itself decides
+ * if it's explicitly allowed or excluded; otherwise it follows its parent, so
+ * allowing Entertainment allows Music unless Music is excluded. Pomodoro
+ * breaks allow everything or add their own contexts.
+ */
+export function isContextAllowed(
+  context: string,
+  focusState: Pick<FocusState, "allowedContexts" | "excludedContexts" | "pomodoro">,
+  contexts: ContextDefinition[]
+): boolean {
+  const { pomodoro } = focusState;
+  const onBreak = !!pomodoro && pomodoro.phase !== "work";
+  if (onBreak && pomodoro.breakMode === "unblock") return true;
+
+  const excluded = focusState.excludedContexts ?? [];
+  const parent = getParentContext(context, contexts);
+  for (const current of parent ? [context, parent] : [context]) {
+    if (onBreak && pomodoro.breakContexts.includes(current)) return true;
+    if (excluded.includes(current)) return false;
+    if (focusState.allowedContexts.includes(current)) return true;
+  }
+  return false;
+}
+
+/**
+ * Add a new context to the registry, optionally as a sub-context of a top-level one
+ */
+export async function createContext(
+  name: string,
+  color: chrome.tabGroups.ColorEnum,
+  description?: string,
+  parent?: string
+): Promise<void> {
+  const contexts = await getContexts();
+  const trimmed = validateName(name, contexts);
+  if (parent) {
+    const parentDefinition = contexts.find(c => c.name === parent);
+    if (!parentDefinition) {
+      throw new Error(`Unknown context "${parent}"`);
+    }
+    if (parentDefinition.parent) {
+      throw new Error(`"${parent}" is already a sub-context and can't have its own`);
+    }
+  }
+
+  // A new context takes over its name from any renamed context that used to have it
+  const { [trimmed]: _, ...contextAliases } = await getContextAliases();
+  await setStorage({
+    contexts: [...contexts, { name: trimmed, color, description, ...(parent ? { parent } : {}) }],
+    contextAliases
+  });
+}
+
+/**
+ * Rename a context and migrate everything that references it
+ */
+export async function renameContext(oldName: string, newName: string): Promise<void> {
+  const contexts = await getContexts();
+  if (!contexts.some(c => c.name === oldName)) {
+    throw new Error(`Unknown context "${oldName}"`);
+  }
+  const trimmed = validateName(newName, contexts.filter(c => c.name !== oldName));
+  if (trimmed === oldName) return;
+
+  await setStorage({
+    contexts: contexts.map(c => {
+      if (c.name === oldName) return { ...c, name: trimmed };
+      return c.parent === oldName ? { ...c, parent: trimmed } : c;
+    })
+  });
+
+  await migrateReferences(oldName, trimmed);
+}
+
+/**
+ * Change the tab group color of a context
+ */
+export async function recolorContext(name: string, color: chrome.tabGroups.ColorEnum): Promise<void> {
+  const contexts = await getContexts();
+  if (!contexts.some(c => c.name === name)) {
+    throw new Error(`Unknown context "${name}"`);
+  }
+
+  await setStorage({
+    contexts: contexts.map(c => c.name === name ? { ...c, color } : c)
+  });
+}
+
+/**
+ * Remove a context and drop any mappings that point at it. Its sub-contexts
+ * become top-level contexts.
+ */
+export async function deleteContext(name: string): Promise<void> {
+  const contexts = await getContexts();
+  const remaining = contexts.filter(c => c.name !== name);
+  if (remaining.length === contexts.length) return;
+  if (remaining.length === 0) {
+    throw new Error("At least one context is required");
+  }
+
+  await setStorage({
+    contexts: remaining.map(c => {
+      if (c.parent !== name) return c;
+      const { parent, ...rest } = c;
+      return rest;
+    })
+  });
+  await migrateReferences(name, null);
+}
+
+/**
+ * Trim a proposed context name and make sure it is usable
+ */
+function validateName(name: string, existing: ContextDefinition[]): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Context name can't be empty");
+  }
+  if (RESERVED_NAMES.includes(trimmed)) {
+    throw new Error(`"${trimmed}" is reserved`);
+  }
+  if (existing.some(c => c.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new Error(`A context named "${trimmed}" already exists`);
+  }
+  return trimmed;
+}
+
+/**
+ * Point stored references to a context at its new name, or drop them if it was deleted
+ */
+async function migrateReferences(oldName: string, newName: string | null): Promise<void> {
+  const { domainContextMap = {}, subUrlOverrides = {}, domainLists = [], contextAliases = {}, contextKeywords, feedbackModel, blockedCategories, pomodoroSettings, focusSchedules } =
+    await getStorage(["domainContextMap", "subUrlOverrides", "domainLists", "contextAliases", "contextKeywords", "feedbackModel", "blockedCategories", "pomodoroSettings", "focusSchedules"]);
+
+  // Built-in signals keep reporting the old name, so point it at the new one
+  const { [newName ?? ""]: _, ...aliases } = remapValues(contextAliases, oldName, newName);
+  await setStorage({
+    contextAliases: newName ? { ...aliases, [oldName]: newName } : aliases,
+    domainContextMap: remapValues(domainContextMap, oldName, newName),
+    subUrlOverrides: remapValues(subUrlOverrides, oldName, newName),
+    // A list whose context is deleted keeps only entries whose own category names a context
+    domainLists: domainLists.map(list => list.context === oldName ? { ...list, context: newName ?? "" } : list)
+  });
+
+  // The default dictionary is copied into storage so the migrated copy replaces it
+  const dictionary = contextKeywords ?? structuredClone(DEFAULT_CONTEXT_KEYWORDS);
+  if (dictionary[oldName]) {
+    const { [oldName]: keywords, ...rest } = dictionary;
+    await setStorage({
+      contextKeywords: newName ? { ...rest, [newName]: keywords } : rest
+    });
+  }
+
+  if (feedbackModel) {
+    await setStorage({
+      feedbackModel: {
+        domainFeedback: Object.fromEntries(
+          Object.entries(feedbackModel.domainFeedback ?? {}).map(([domain, votes]) => [domain, remapKeys(votes, oldName, newName)])
+        ),
+        tokenCounts: remapKeys(feedbackModel.tokenCounts ?? {}, oldName, newName),
+        tokenTotals: remapKeys(feedbackModel.tokenTotals ?? {}, oldName, newName),
+        exampleCounts: remapKeys(feedbackModel.exampleCounts ?? {}, oldName, newName)
+      }
+    });
+  }
+
+  if (blockedCategories) {
+    await setStorage({ blockedCategories: remapList(blockedCategories, oldName, newName) });
+  }
+
+  if (pomodoroSettings?.breakContexts.includes(oldName)) {
+    await setStorage({
+      pomodoroSettings: { ...pomodoroSettings, breakContexts: remapList(pomodoroSettings.breakContexts, oldName, newName) }
+    });
+  }
+
+  if (focusSchedules?.some(s => s.allowedContexts.includes(oldName) || s.excludedContexts?.includes(oldName))) {
+    await setStorage({
+      focusSchedules: focusSchedules.map(s => {
+        const allowedContexts = remapList(s.allowedContexts, oldName, newName);
+        // An entry left with nothing to allow would block everything, so turn it off
+        return {
+          ...s,
+          allowedContexts,
+          excludedContexts: s.excludedContexts && remapList(s.excludedContexts, oldName, newName),
+          enabled: s.enabled && allowedContexts.length > 0
+        };
+      })
+    });
+  }
+
+  const focusState = await getFocusState();
+  const excludedContexts = focusState.excludedContexts ?? [];
+  if (focusState.allowedContexts.includes(oldName) || excludedContexts.includes(oldName)) {
+    await setFocusState({
+      allowedContexts: remapList(focusState.allowedContexts, oldName, newName),
+      excludedContexts: remapList(excludedContexts, oldName, newName)
+    });
+  }
+  if (focusState.pomodoro?.breakContexts.includes(oldName)) {
+    await setFocusState({
+      pomodoro: { ...focusState.pomodoro, breakContexts: remapList(focusState.pomodoro.breakContexts, oldName, newName) }
+    });
+  }
+}
+
+function remapValues(
+  map: Record<string, string>,
+  oldName: string,
+  newName: string | null
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, value] of Object.entries(map)) {
+    if (value !== oldName) {
+      result[key] = value;
+    } else if (newName) {
+      result[key] = newName;
+    }
+  }
+  return result;
+}
+
+function remapKeys<T>(
+  map: Record<string, T>,
+  oldName: string,
+  newName: string | null
+): Record<string, T> {
+  if (!(oldName in map)) return map;
+  const { [oldName]: value, ...rest } = map;
+  return newName ? { ...rest, [newName]: value } : rest;
+}
+
+function remapList(list: string[], oldName: string, newName: string | null): string[] {
+  return list.flatMap(item => item !== oldName ? [item] : newName ? [newName] : []);
+}
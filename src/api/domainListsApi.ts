@@ -0,0 +1,149 @@
+import { getStorage, setStorage } from "./storageApi";
+import { getContextAliases, getContextNames } from "./contextsApi";
+import { DOMAIN_CATEGORIES } from "../lib/contextEngine/domainCategories";
+import { parseDomainList } from "../lib/domainListParser";
+import { DomainList, DomainListFormat } from "../types/index";
+
+/** Where an effective domain mapping came from: "builtin", "user" or an imported list's ID */
+export type DomainMappingSource = "builtin" | "user" | string;
+
+/** Every domain → context mapping after merging the built-in list, imported lists and the user's own */
+export interface DomainMappings {
+  contexts: Record<string, string>;
+  sources: Record<string, DomainMappingSource>;
+}
+
+// Cache for the merged mappings to avoid re-merging large lists on every lookup
+let mappingsCache: DomainMappings | null = null;
+
+// Setup storage change listener to invalidate cache
+chrome.storage.onChanged.addListener((changes) => {
+  if (changes.domainLists || changes.domainContextMap || changes.contexts || changes.contextAliases) {
+    mappingsCache = null;
+  }
+});
+
+/**
+ * Get all imported domain lists
+ */
+export async function getDomainLists(): Promise<DomainList[]> {
+  const { domainLists = [] } = await getStorage(["domainLists"]);
+  return domainLists;
+}
+
+/**
+ * Parse a list file and store it
+ *
+ * @returns The stored list and the number of lines that weren't usable domains
+ */
+export async function importDomainList(
+  name: string,
+  text: string,
+  format: DomainListFormat,
+  context: string,
+  precedence: DomainList["precedence"]
+): Promise<{ list: DomainList; skipped: number }> {
+  const { entries, skipped } = parseDomainList(text, format);
+  if (Object.keys(entries).length === 0) {
+    throw new Error("No domains found in this file");
+  }
+
+  const list: DomainList = {
+    id: `list-${Date.now().toString(36)}`,
+    name: name.trim() || "Imported list",
+    format,
+    context,
+    precedence,
+    entries,
+    importedAt: Date.now()
+  };
+
+  const lists = await getDomainLists();
+  await setStorage({ domainLists: [...lists, list] });
+  return { list, skipped };
+}
+
+/**
+ * Change an imported list's context or precedence
+ */
+export async function updateDomainList(
+  id: string,
+  changes: Partial<Pick<DomainList, "name" | "context" | "precedence">>
+): Promise<void> {
+  const lists = await getDomainLists();
+  await setStorage({
+    domainLists: lists.map(list => list.id === id ? { ...list, ...changes } : list)
+  });
+}
+
+/**
+ * Remove an imported list
+ */
+export async function removeDomainList(id: string): Promise<void> {
+  const lists = await getDomainLists();
+  await setStorage({ domainLists: lists.filter(list => list.id !== id) });
+}
+
+/**
+ * Get the merged domain → context mappings used for grouping and blocking.
+ *
+ * Layers, lowest first: the built-in list, lists ranked below the user, the
+ * user's learned and corrected mappings (domainContextMap), lists ranked above
+ * the user. Later lists win over earlier ones within a layer.
+ */
+export async function getDomainMappings(): Promise<DomainMappings> {
+  if (mappingsCache !== null) {
+    return mappingsCache;
+  }
+
+  const [{ domainContextMap = {} }, lists, contextNames, aliases] = await Promise.all([
+    getStorage(["domainContextMap"]),
+    getDomainLists(),
+    getContextNames(),
+    getContextAliases()
+  ]);
+
+  // Only registered contexts are mapped, so deleted ones (even built-in) don't block anything
+  const registered = new Set(contextNames);
+  const mappings: DomainMappings = { contexts: {}, sources: {} };
+  const add = (entries: Record<string, string>, source: DomainMappingSource) => {
+    for (const [domain, context] of Object.entries(entries)) {
+      if (!registered.has(context)) continue;
+      mappings.contexts[domain] = context;
+      mappings.sources[domain] = source;
+    }
+  };
+
+  // Built-in categories use the default context names, which the user may have renamed
+  const builtin: Record<string, string> = {};
+  for (const [domain, context] of Object.entries(DOMAIN_CATEGORIES)) {
+    builtin[domain] = aliases[context] ?? context;
+  }
+  add(builtin, "builtin");
+  for (const list of lists.filter(l => l.precedence === "belowUser")) {
+    add(resolveListContexts(list, contextNames), list.id);
+  }
+  add(domainContextMap, "user");
+  for (const list of lists.filter(l => l.precedence === "aboveUser")) {
+    add(resolveListContexts(list, contextNames), list.id);
+  }
+
+  mappingsCache = mappings;
+  return mappings;
+}
+
+/**
+ * Map a list's entries to contexts: an entry whose category names a context
+ * (case-insensitively) keeps it, everything else gets the list's context
+ */
+function resolveListContexts(list: DomainList, contextNames: string[]): Record<string, string> {
+  const byLowerName = new Map(contextNames.map(name => [name.toLowerCase(), name]));
+  const fallback = byLowerName.get(list.context.toLowerCase());
+  const result: Record<string, string> = {};
+
+  for (const [domain, category] of Object.entries(list.entries)) {
+    const context = byLowerName.get(category.toLowerCase()) ?? fallback;
+    if (context) result[domain] = context;
+  }
+  return result;
+}
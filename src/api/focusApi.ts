@@ -1,11 +1,20 @@
 import { getStorage, setStorage } from "./storageApi";
 import { FocusStatus, FocusSettings, ContextSwitch } from "../types/index";
 
+// Score an allowed secondary context needs to let a page through
+export const DEFAULT_SECONDARY_ALLOW_THRESHOLD = 0.3;
+
+// Temporary allowances a session can hand out
+export const DEFAULT_OVERRIDE_BUDGET = 3;
+
 const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
   enabled: true,
   notificationsEnabled: true,
   switchThreshold: 5,
-  timeWindowMinutes: 15
+  timeWindowMinutes: 15,
+  allowSecondaryContexts: false,
+  secondaryAllowThreshold: DEFAULT_SECONDARY_ALLOW_THRESHOLD,
+  overrideBudget: DEFAULT_OVERRIDE_BUDGET
 };
 
 /**
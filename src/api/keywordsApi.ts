@@ -0,0 +1,92 @@
+import { getStorage, setStorage } from "./storageApi";
+import { DEFAULT_CONTEXT_KEYWORDS } from "../lib/contextEngine/defaultKeywords";
+
+/** Keyword dictionary: context → keyword or phrase → weight */
+export type KeywordDictionary = Record<string, Record<string, number>>;
+
+// Version stamped on exported dictionaries
+const EXPORT_VERSION = 1;
+
+/**
+ * Get the keyword dictionary the classifier uses (stored, or the built-in one)
+ */
+export async function getKeywordDictionary(): Promise<KeywordDictionary> {
+  const { contextKeywords } = await getStorage(["contextKeywords"]);
+  return structuredClone(contextKeywords || DEFAULT_CONTEXT_KEYWORDS);
+}
+
+/**
+ * Save an edited keyword dictionary
+ */
+export async function saveKeywordDictionary(dictionary: KeywordDictionary): Promise<void> {
+  await setStorage({ contextKeywords: dictionary });
+}
+
+/**
+ * Go back to the built-in keyword dictionary
+ */
+export async function resetKeywordDictionary(): Promise<KeywordDictionary> {
+  await new Promise<void>(resolve => chrome.storage.local.remove("contextKeywords", resolve));
+  return structuredClone(DEFAULT_CONTEXT_KEYWORDS);
+}
+
+/**
+ * Lowercase a keyword or phrase and collapse its whitespace
+ */
+export function normalizeKeyword(keyword: string): string {
+  return keyword.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Keep a weight inside the range the classifier expects
+ */
+export function clampKeywordWeight(weight: number): number {
+  return Math.min(1, Math.max(0, Math.round(weight * 100) / 100));
+}
+
+/**
+ * Serialize a dictionary for sharing
+ */
+export function exportKeywordDictionary(dictionary: KeywordDictionary): string {
+  return JSON.stringify({ version: EXPORT_VERSION, contexts: dictionary }, null, 2);
+}
+
+/**
+ * Parse a shared dictionary: either an export ({ version, contexts }) or a
+ * plain { context: { keyword: weight } } map. Keywords are normalized and
+ * weights clamped to 0–1; entries that aren't numbers are dropped.
+ */
+export function parseKeywordDictionary(json: string): KeywordDictionary {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as Error).message}`);
+  }
+
+  const root = data && typeof data === "object" && "contexts" in data
+    ? (data as { contexts: unknown }).contexts
+    : data;
+  if (!root || typeof root !== "object" || Array.isArray(root)) {
+    throw new Error("Expected an object of contexts and their keywords");
+  }
+
+  const dictionary: KeywordDictionary = {};
+  for (const [context, keywords] of Object.entries(root as Record<string, unknown>)) {
+    if (!keywords || typeof keywords !== "object" || Array.isArray(keywords)) continue;
+
+    const weights: Record<string, number> = {};
+    for (const [keyword, weight] of Object.entries(keywords as Record<string, unknown>)) {
+      const term = normalizeKeyword(keyword);
+      if (term && typeof weight === "number" && isFinite(weight)) {
+        weights[term] = clampKeywordWeight(weight);
+      }
+    }
+    dictionary[context.trim()] = weights;
+  }
+
+  if (Object.keys(dictionary).length === 0) {
+    throw new Error("No keywords found in this file");
+  }
+  return dictionary;
+}
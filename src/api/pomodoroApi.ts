@@ -0,0 +1,30 @@
+import { getStorage, setStorage } from "./storageApi";
+import { PomodoroSettings } from "../types/index";
+
+export const DEFAULT_POMODORO_SETTINGS: PomodoroSettings = {
+  workMinutes: 25,
+  breakMinutes: 5,
+  longBreakMinutes: 15,
+  cycles: 4,
+  longBreakEvery: 4,
+  breakMode: "unblock",
+  breakContexts: []
+};
+
+/**
+ * Get the settings new Pomodoro sessions start with
+ */
+export async function getPomodoroSettings(): Promise<PomodoroSettings> {
+  const { pomodoroSettings } = await getStorage(["pomodoroSettings"]);
+  return { ...DEFAULT_POMODORO_SETTINGS, ...pomodoroSettings };
+}
+
+/**
+ * Update Pomodoro settings
+ */
+export async function updatePomodoroSettings(settings: Partial<PomodoroSettings>): Promise<void> {
+  const currentSettings = await getPomodoroSettings();
+  await setStorage({
+    pomodoroSettings: { ...currentSettings, ...settings }
+  });
+}
@@ -0,0 +1,66 @@
+import { getStorage, setStorage } from "./storageApi";
+import { parseTime } from "../lib/schedule";
+import { FocusSchedule } from "../types/index";
+
+/**
+ * Get all schedule entries
+ */
+export async function getSchedules(): Promise<FocusSchedule[]> {
+  const { focusSchedules = [] } = await getStorage(["focusSchedules"]);
+  return focusSchedules;
+}
+
+/**
+ * Add a schedule entry
+ */
+export async function addSchedule(entry: Omit<FocusSchedule, "id" | "enabled">): Promise<FocusSchedule> {
+  validateSchedule(entry);
+  const schedule: FocusSchedule = {
+    ...entry,
+    name: entry.name.trim() || "Focus",
+    id: `schedule-${Date.now().toString(36)}`,
+    enabled: true
+  };
+
+  const schedules = await getSchedules();
+  await setStorage({ focusSchedules: [...schedules, schedule] });
+  return schedule;
+}
+
+/**
+ * Turn a schedule entry on or off
+ */
+export async function setScheduleEnabled(id: string, enabled: boolean): Promise<void> {
+  const schedules = await getSchedules();
+  await setStorage({
+    focusSchedules: schedules.map(s => s.id === id ? { ...s, enabled } : s)
+  });
+}
+
+/**
+ * Remove a schedule entry
+ */
+export async function removeSchedule(id: string): Promise<void> {
+  const schedules = await getSchedules();
+  await setStorage({ focusSchedules: schedules.filter(s => s.id !== id) });
+}
+
+/**
+ * Make sure an entry can be scheduled
+ */
+function validateSchedule(entry: Omit<FocusSchedule, "id" | "enabled">): void {
+  if (entry.days.length === 0) {
+    throw new Error("Pick at least one day");
+  }
+  const start = parseTime(entry.start);
+  const end = parseTime(entry.end);
+  if (start === undefined || end === undefined) {
+    throw new Error("Times must look like 09:00");
+  }
+  if (start === end) {
+    throw new Error("A scheduled session can't start and end at the same time");
+  }
+  if (entry.allowedContexts.length === 0) {
+    throw new Error("Pick at least one context to allow");
+  }
+}
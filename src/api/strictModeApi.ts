@@ -0,0 +1,38 @@
+import { getStorage, setStorage } from "./storageApi";
+import { StrictModeSettings } from "../types/index";
+
+// Shortest unlock phrase, so unlocking takes deliberate typing
+export const MIN_UNLOCK_PHRASE_LENGTH = 40;
+
+export const DEFAULT_STRICT_MODE_SETTINGS: StrictModeSettings = {
+  emergencyUnlock: true,
+  unlockPhrase: "I am choosing to give up on this focus session before it is over",
+  unlockCooldownMinutes: 10
+};
+
+/**
+ * Get the settings new strict sessions start with
+ */
+export async function getStrictModeSettings(): Promise<StrictModeSettings> {
+  const { strictModeSettings } = await getStorage(["strictModeSettings"]);
+  return { ...DEFAULT_STRICT_MODE_SETTINGS, ...strictModeSettings };
+}
+
+/**
+ * Update strict mode settings
+ */
+export async function updateStrictModeSettings(settings: Partial<StrictModeSettings>): Promise<void> {
+  const currentSettings = await getStrictModeSettings();
+  const updated = { ...currentSettings, ...settings };
+  validateUnlockPhrase(updated.unlockPhrase);
+  await setStorage({ strictModeSettings: updated });
+}
+
+/**
+ * Make sure an unlock phrase is long enough to slow the user down
+ */
+export function validateUnlockPhrase(phrase: string): void {
+  if (phrase.trim().length < MIN_UNLOCK_PHRASE_LENGTH) {
+    throw new Error(`The unlock phrase needs at least ${MIN_UNLOCK_PHRASE_LENGTH} characters`);
+  }
+}
@@ -1,15 +1,24 @@
 import { pickColorForContext } from "../lib/pickColor";
+import { getContexts, getTopLevelContext } from "./contextsApi";
+import { getStorage } from "./storageApi";
 
 export async function groupTabByContext(tabId: number, context: string): Promise<void> {
+  // Sub-contexts share their parent's group unless set to get their own
+  const [contexts, { tabGroupLevel = "parent" }] = await Promise.all([
+    getContexts(),
+    getStorage(["tabGroupLevel"])
+  ]);
+  const title = tabGroupLevel === "parent" ? getTopLevelContext(context, contexts) : context;
+
   const groups = await chrome.tabGroups.query({});
-  let existingGroup = groups.find((grp) => grp.title === context);
+  let existingGroup = groups.find((grp) => grp.title === title);
 
   if (!existingGroup) {
     // Create new group if none match
     const newGroupId = await chrome.tabs.group({ tabIds: [tabId] });
     existingGroup = await chrome.tabGroups.update(newGroupId, {
-      title: context,
-      color: pickColorForContext(context),
+      title,
+      color: pickColorForContext(title, contexts),
     });
   } else {
     // Add to existing group
@@ -17,6 +26,18 @@ export async function groupTabByContext(tabId: number, context: string): Promise
   }
 }
 
+/** Retitle/recolor existing groups after a context was renamed or recolored */
+export async function updateContextGroups(
+  oldTitle: string,
+  title: string,
+  color: chrome.tabGroups.ColorEnum
+): Promise<void> {
+  const groups = await chrome.tabGroups.query({ title: oldTitle });
+  for (const g of groups) {
+    await chrome.tabGroups.update(g.id, { title, color });
+  }
+}
+
 export function onTabRemoved(callback: (tabId: number) => void): void {
   chrome.tabs.onRemoved.addListener(callback);
 }
@@ -1,12 +1,27 @@
 /**
  * Declarative Net Request rules for efficient content blocking
  */
-import { getFocusState } from "../api/storageApi";
+import { getFocusState, getStorage } from "../api/storageApi";
+import { getContexts, isContextAllowed } from "../api/contextsApi";
+import { getDomainMappings } from "../api/domainListsApi";
+import { normalizeOverridePrefix } from "../lib/contextEngine/subUrlOverrides";
+import { isDomainPattern, normalizeHostname } from "../lib/contextEngine/domainMatcher";
+import { getActiveAllowances } from "../lib/allowances";
 
 // Constants
 const RULE_ID_OFFSET = 100;
 const MAX_DNR_RULES = 5000;
+// Domains per rule before a group is split; grows when the budget is tight
+const MAX_DOMAINS_PER_RULE = 1000;
+// Host and registrable-domain rules outrank every "*." pattern rule
+const HOST_RULE_PRIORITY_BASE = 50;
+// Sub-URL overrides outrank every domain rule; longer prefixes outrank shorter ones
+const SUB_URL_OVERRIDE_PRIORITY = 100;
+// Temporary allowances outrank everything while they last
+const ALLOWANCE_PRIORITY = 10000;
 const BLOCKED_PAGE_URL = chrome.runtime.getURL("blocked.html");
+// Redirect rules rewrite the matched URL, so every one of them needs a regexFilter
+const MAX_REDIRECT_RULES = chrome.declarativeNetRequest.MAX_NUMBER_OF_REGEX_RULES;
 
 /**
  * Apply allowed contexts as declarative blocking rules
@@ -19,98 +34,69 @@ export async function applyAllowedContexts(): Promise<void> {
     // Get the current focus state
     const focusState = await getFocusState();
     
-    // If focus is not active, remove all rules
-    if (!focusState.active) {
+    // If focus is not active or is paused, remove all rules
+    if (!focusState.active || focusState.pausedAt) {
       await chrome.declarativeNetRequest.updateDynamicRules({
         removeRuleIds: await getCurrentRuleIds()
       });
       return;
     }
     
-    // Get domains classified by context
-    const { domainContextMap } = await chrome.storage.local.get('domainContextMap') as { 
-      domainContextMap: Record<string, string> 
-    };
+    // Get domains classified by context (built-in, imported and learned)
+    const { contexts: domainContextMap } = await getDomainMappings();
+    // Sub-contexts follow their parent unless explicitly allowed or excluded
+    const contexts = await getContexts();
+    const isAllowed = (context: string) => isContextAllowed(context, focusState, contexts);
+    const blockedContexts = contexts.filter(c => !isAllowed(c.name)).map(c => c.name);
+    const allowedContexts = contexts.filter(c => isAllowed(c.name)).map(c => c.name);
     
-    if (!domainContextMap) {
-      console.warn("No domain context map found, cannot create blocking rules");
-      return;
-    }
-    
-    // Group domains by context
-    const domainsByContext: Record<string, string[]> = {};
-    for (const [domain, context] of Object.entries(domainContextMap)) {
-      if (!domainsByContext[context]) {
-        domainsByContext[context] = [];
-      }
-      domainsByContext[context].push(domain);
-    }
+    // Sub-URL overrides beat the domain rules: block the prefix if its context
+    // is blocked, otherwise explicitly allow it inside an otherwise blocked domain.
+    // They're few and hand-picked, so they get their rules first.
+    const { subUrlOverrides = {} } = await getStorage(["subUrlOverrides"]);
+    const overrideRules: chrome.declarativeNetRequest.Rule[] = [];
     
-    // Create rules for each blocked context
-    const rules: chrome.declarativeNetRequest.Rule[] = [];
-    const blockedContexts = getAllKnownContexts().filter(
-      ctx => !focusState.allowedContexts.includes(ctx)
-    );
-    
-    let ruleId = RULE_ID_OFFSET;
-    
-    for (const context of blockedContexts) {
-      const domains = domainsByContext[context] || [];
-      
-      // Skip if no domains in this context
-      if (domains.length === 0) continue;
+    for (const [prefix, context] of Object.entries(subUrlOverrides)) {
+      const regexFilter = overrideRegexFilter(prefix);
+      if (!regexFilter) continue;
       
-      // Add a rule for this context
-      rules.push({
-        id: ruleId++,
-        priority: 1,
-        action: {
-          type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
-          redirect: { url: BLOCKED_PAGE_URL }
-        },
+      const blocked = !isAllowed(context);
+      overrideRules.push({
+        id: 0,
+        priority: overrideRulePriority(prefix),
+        action: blocked
+          ? blockedPageRedirect(context)
+          : { type: chrome.declarativeNetRequest.RuleActionType.ALLOW },
         condition: {
-          requestDomains: domains,
-          resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME],
-          // Exclude all extensions and localhost from blocking
-          excludedInitiatorDomains: ['localhost', 'chrome-extension'],
-          // Only apply to new navigations, not history navigations
-          domainType: chrome.declarativeNetRequest.DomainType.FIRST_PARTY
+          regexFilter,
+          isUrlFilterCaseSensitive: false,
+          resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME]
         }
       });
       
-      // DNR has a rule limit, so break if we hit it
-      if (rules.length >= MAX_DNR_RULES) {
-        console.warn(`Hit DNR rule limit of ${MAX_DNR_RULES}`);
+      // DNR has a rule limit, so stop if we hit it
+      if (overrideRules.length >= MAX_REDIRECT_RULES) {
+        console.warn(`Hit DNR regex rule limit of ${MAX_REDIRECT_RULES} with sub-URL overrides alone`);
         break;
       }
     }
     
-    // Add path-level overrides if any exist
-    const { pathOverrides = [] } = await chrome.storage.local.get('pathOverrides') as { 
-      pathOverrides: string[] 
-    };
-    
-    // Add each path override as a separate rule
-    for (const overridePath of pathOverrides) {
-      rules.push({
-        id: ruleId++,
-        priority: 2, // Higher priority than domain rules
-        action: { 
-          type: chrome.declarativeNetRequest.RuleActionType.REDIRECT, 
-          redirect: { url: BLOCKED_PAGE_URL } 
-        },
-        condition: {
-          urlFilter: `|${overridePath}|`,
-          resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME]
-        }
-      });
-      
-      // DNR has a rule limit, so break if we hit it
-      if (rules.length >= MAX_DNR_RULES) {
-        console.warn(`Hit DNR rule limit of ${MAX_DNR_RULES}`);
-        break;
+    // A temporarily allowed domain loads whatever its context, until the allowance runs out
+    const allowanceRules: chrome.declarativeNetRequest.Rule[] = getActiveAllowances(focusState).map(({ domain }) => ({
+      id: 0,
+      priority: ALLOWANCE_PRIORITY,
+      action: { type: chrome.declarativeNetRequest.RuleActionType.ALLOW },
+      condition: {
+        requestDomains: [domain],
+        resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME]
       }
-    }
+    }));
+    
+    const domainRules = buildDomainRules(domainContextMap, blockedContexts, allowedContexts,
+      MAX_DNR_RULES - overrideRules.length - allowanceRules.length, MAX_REDIRECT_RULES - overrideRules.length);
+    
+    let ruleId = RULE_ID_OFFSET;
+    const rules = [...domainRules, ...overrideRules, ...allowanceRules].map(rule => ({ ...rule, id: ruleId++ }));
     
     // Apply the rules
     await chrome.declarativeNetRequest.updateDynamicRules({
@@ -118,12 +104,183 @@ export async function applyAllowedContexts(): Promise<void> {
       addRules: rules
     });
     
-    console.log(`[DNR] Applied ${rules.length} blocking rules for ${blockedContexts.length} contexts and ${pathOverrides.length} path overrides`);
+    console.log(`[DNR] Applied ${domainRules.length} domain rules for ${blockedContexts.length} blocked contexts, ` +
+      `${overrideRules.length} sub-URL override rules and ${allowanceRules.length} temporary allowances`);
   } catch (error) {
     console.error("Error applying DNR rules:", error);
   }
 }
 
+/**
+ * Build the domain rules, fitting every domain into the rule budget.
+ *
+ * Blocked contexts get redirect rules. Allowed contexts only get allow rules
+ * where a more specific entry (old.reddit.com, example.edu) has to carve itself
+ * out of a blocked parent domain or pattern. requestDomains already covers
+ * subdomains, and domains with the same action and priority share rules
+ * (blocked ones only within a context, which the blocked page is told about).
+ */
+function buildDomainRules(
+  domainContextMap: Record<string, string>,
+  blockedContexts: string[],
+  allowedContexts: string[],
+  budget: number,
+  redirectBudget: number
+): chrome.declarativeNetRequest.Rule[] {
+  const blockedHosts = new Set<string>();
+  const blockedPatterns = new Set<string>();
+  const allowed: Array<{ domain: string; pattern: boolean }> = [];
+  const groups = new Map<string, { context: string | null; priority: number; domains: string[] }>();
+  
+  const addToGroup = (domain: string, pattern: boolean, context: string | null) => {
+    const priority = domainRulePriority(domain, pattern);
+    const key = `${context ?? ""}:${priority}`;
+    if (!groups.has(key)) {
+      groups.set(key, { context, priority, domains: [] });
+    }
+    groups.get(key)!.domains.push(domain);
+  };
+  
+  for (const [key, context] of Object.entries(domainContextMap)) {
+    const pattern = isDomainPattern(key);
+    const domain = normalizeHostname(pattern ? key.substring(2) : key);
+    if (!domain) continue;
+    
+    if (blockedContexts.includes(context)) {
+      (pattern ? blockedPatterns : blockedHosts).add(domain);
+      addToGroup(domain, pattern, context);
+    } else if (allowedContexts.includes(context)) {
+      allowed.push({ domain, pattern });
+    }
+  }
+  
+  for (const { domain, pattern } of allowed) {
+    if (hasBlockedParent(domain, pattern, blockedHosts, blockedPatterns)) {
+      addToGroup(domain, pattern, null);
+    }
+  }
+  
+  // Chunk large groups, growing the chunks if the domains wouldn't fit the budget otherwise
+  const totalDomains = Array.from(groups.values()).reduce((sum, group) => sum + group.domains.length, 0);
+  const chunkSize = Math.max(MAX_DOMAINS_PER_RULE, Math.ceil(totalDomains / Math.max(1, budget - groups.size)));
+  
+  const rules: chrome.declarativeNetRequest.Rule[] = [];
+  // Most specific first, so a truncated rule set loses the broadest rules
+  const ordered = Array.from(groups.values()).sort((a, b) => b.priority - a.priority);
+  
+  let redirects = 0;
+  
+  for (const { context, priority, domains } of ordered) {
+    for (let i = 0; i < domains.length; i += chunkSize) {
+      if (rules.length >= budget) {
+        console.warn(`[DNR] Hit rule limit of ${MAX_DNR_RULES}, some domains aren't blocked`);
+        return rules;
+      }
+      if (context !== null && redirects >= redirectBudget) {
+        console.warn(`[DNR] Hit regex rule limit of ${MAX_REDIRECT_RULES}, some domains aren't blocked`);
+        break;
+      }
+      
+      const requestDomains = domains.slice(i, i + chunkSize);
+      if (context !== null) redirects++;
+      rules.push({
+        id: 0,
+        priority,
+        action: context !== null
+          ? blockedPageRedirect(context)
+          : { type: chrome.declarativeNetRequest.RuleActionType.ALLOW },
+        condition: context !== null
+          ? {
+              regexFilter: "^.*$",
+              requestDomains,
+              resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME],
+              // Exclude all extensions and localhost from blocking
+              excludedInitiatorDomains: ['localhost', 'chrome-extension'],
+              // Only apply to new navigations, not history navigations
+              domainType: chrome.declarativeNetRequest.DomainType.FIRST_PARTY
+            }
+          : {
+              requestDomains,
+              resourceTypes: [chrome.declarativeNetRequest.ResourceType.MAIN_FRAME]
+            }
+      });
+    }
+  }
+  
+  return rules;
+}
+
+/**
+ * Whether a less specific blocked entry would also match an allowed domain
+ */
+function hasBlockedParent(
+  domain: string,
+  pattern: boolean,
+  blockedHosts: Set<string>,
+  blockedPatterns: Set<string>
+): boolean {
+  const labels = domain.split(".");
+  for (let i = 0; i < labels.length; i++) {
+    const suffix = labels.slice(i).join(".");
+    // Host rules outrank pattern rules, so an allowed pattern can only carve
+    // itself out of a broader blocked pattern
+    if (!pattern && i > 0 && blockedHosts.has(suffix)) return true;
+    if ((!pattern || i > 0) && blockedPatterns.has(suffix)) return true;
+  }
+  return false;
+}
+
+/**
+ * DNR priority for a domain rule, mirroring lookupDomain: deeper hosts win
+ * over their parents, and any host or registrable domain wins over a pattern
+ */
+function domainRulePriority(domain: string, pattern: boolean): number {
+  const depth = Math.min(domain.split(".").length, HOST_RULE_PRIORITY_BASE - 1);
+  return pattern ? depth : HOST_RULE_PRIORITY_BASE + depth;
+}
+
+/**
+ * DNR priority for a sub-URL override rule, mirroring matchSubUrlOverride:
+ * the longest matching prefix wins, whatever its rule's action
+ */
+function overrideRulePriority(prefix: string): number {
+  const length = normalizeOverridePrefix(prefix).length;
+  return SUB_URL_OVERRIDE_PRIORITY + Math.min(length, ALLOWANCE_PRIORITY - SUB_URL_OVERRIDE_PRIORITY - 1);
+}
+
+/**
+ * Redirect to the blocked page for a context. regexSubstitution can't
+ * percent-encode the original URL for a query parameter, so it goes in the
+ * fragment as-is (request URLs never have one of their own).
+ */
+function blockedPageRedirect(context: string): chrome.declarativeNetRequest.RuleAction {
+  return {
+    type: chrome.declarativeNetRequest.RuleActionType.REDIRECT,
+    redirect: { regexSubstitution: `${BLOCKED_PAGE_URL}?context=${encodeURIComponent(context)}#\\0` }
+  };
+}
+
+/**
+ * Build a DNR regexFilter for a sub-URL override prefix that matches the whole URL
+ *
+ * "youtube.com/@mitocw" matches like the urlFilter "||youtube.com/@mitocw^":
+ * any scheme and subdomain, and the prefix must end at a path or query boundary.
+ */
+function overrideRegexFilter(prefix: string): string | null {
+  try {
+    // Let URL punycode the host and percent-encode the path, since the filter must be ASCII
+    const { host, pathname, search } = new URL(`https://${normalizeOverridePrefix(prefix)}`);
+    const path = pathname === "/" ? "" : pathname;
+    const target = `${host}${path}${search}`;
+    const escaped = target.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    const boundary = /[/?]$/.test(target) ? "" : "([^A-Za-z0-9_.%-]|$)";
+    return `^[a-z][a-z0-9+.-]*://([^/?#]*\\.)?${escaped}${boundary}.*$`;
+  } catch {
+    console.warn(`[DNR] Skipping invalid sub-URL override "${prefix}"`);
+    return null;
+  }
+}
+
 /**
  * Get current active rule IDs
  */
@@ -131,13 +288,3 @@ async function getCurrentRuleIds(): Promise<number[]> {
   const rules = await chrome.declarativeNetRequest.getDynamicRules();
   return rules.map(rule => rule.id);
 }
-
-/**
- * Get all known context categories
- */
-function getAllKnownContexts(): string[] {
-  return [
-    "Work", "Development", "Research", "Learning", 
-    "Entertainment", "Social", "Shopping", "News"
-  ];
-} 
\ No newline at end of file
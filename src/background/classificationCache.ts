@@ -0,0 +1,210 @@
+/**
+ * Per-URL cache of classification results, keyed by normalized URL and
+ * checked against a hash of the page text. It's mirrored to session storage,
+ * so it outlives service worker restarts but not the browser session.
+ */
+import { CacheStats, ContextResult, PageData } from "../types/index";
+import { tokenize } from "../lib/contextEngine/tokenizer";
+
+// Cap on cached pages; the least recently used page is evicted first
+const MAX_ENTRIES = 300;
+
+// Pages whose text shares at least this much vocabulary count as unchanged
+// (infinite scroll, counters, timestamps and rotating ads barely move it)
+const UNCHANGED_SIMILARITY = 0.85;
+
+// Delay before the cache is written back, so a burst of lookups costs one write
+const PERSIST_DELAY_MS = 1000;
+
+// Query parameters that never change what a page is about
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|ref_src|igshid|si)$/i;
+
+interface CacheEntry {
+  result: ContextResult;
+  hash: string;
+  terms: Set<string>;
+  cachedAt: number;
+}
+
+/** Session storage form of the cache; term sets are stored as arrays */
+interface StoredCache {
+  entries: Array<[string, Omit<CacheEntry, "terms"> & { terms: string[] }]>;
+  stats: CacheStats;
+}
+
+const entries = new Map<string, CacheEntry>();
+let stats: CacheStats = { hits: 0, misses: 0, expired: 0, changed: 0, entries: 0, since: Date.now() };
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+const restored = restoreCache();
+
+// Cached results go stale when anything the classifier reads changes
+chrome.storage.onChanged.addListener((changes) => {
+  if (changes.contextKeywords || changes.classifierSettings || changes.feedbackModel || changes.contexts ||
+      changes.contextAliases || changes.subUrlOverrides ||
+      (changes.documentFrequencies && !isOneMoreDocument(changes.documentFrequencies))) {
+    restored.then(() => {
+      entries.clear();
+      schedulePersist();
+    });
+  }
+});
+
+/**
+ * Whether a document frequency change only counted one more page. Every
+ * classification does that and it barely moves the IDF weights; a reset or
+ * import does, so only those invalidate the cache.
+ */
+function isOneMoreDocument({ oldValue, newValue }: chrome.storage.StorageChange): boolean {
+  return newValue?.documentCount === (oldValue?.documentCount ?? 0) + 1;
+}
+
+/**
+ * Load the cache a previous service worker instance left in session storage
+ */
+async function restoreCache(): Promise<void> {
+  try {
+    const { classificationCache } = await chrome.storage.session.get("classificationCache") as
+      { classificationCache?: StoredCache };
+    if (!classificationCache) return;
+    for (const [key, entry] of classificationCache.entries) {
+      entries.set(key, { ...entry, terms: new Set(entry.terms) });
+    }
+    stats = classificationCache.stats;
+  } catch (error) {
+    console.warn("[Cache] Couldn't restore the classification cache:", error);
+  }
+}
+
+/**
+ * Write the cache back to session storage shortly, batching changes
+ */
+function schedulePersist(): void {
+  if (persistTimer) return;
+  persistTimer = setTimeout(() => {
+    persistTimer = null;
+    const classificationCache: StoredCache = {
+      entries: Array.from(entries, ([key, entry]) => [key, { ...entry, terms: Array.from(entry.terms) }]),
+      stats
+    };
+    chrome.storage.session.set({ classificationCache })
+      .catch((error) => console.warn("[Cache] Couldn't save the classification cache:", error));
+  }, PERSIST_DELAY_MS);
+}
+
+/**
+ * Normalize a URL so that fragments, tracking parameters and parameter order
+ * don't create separate cache entries
+ */
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    const query = new URLSearchParams(params).toString();
+    const path = parsed.pathname.replace(/\/+$/, "") || "/";
+    return `${parsed.hostname.toLowerCase()}${path}${query ? `?${query}` : ""}`;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, as hex
+ */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+/**
+ * Title and text with digits and whitespace runs normalized away
+ */
+function pageContent(pageData: PageData): string {
+  return `${pageData.title}\n${pageData.metaDescription}\n${pageData.fullText}`
+    .toLowerCase()
+    .replace(/\d+/g, "0")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Share of vocabulary two texts have in common (Jaccard similarity)
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Get a cached result for a page if it is fresh and its content hasn't meaningfully changed
+ */
+export async function getCachedClassification(pageData: PageData, ttlMs: number): Promise<ContextResult | undefined> {
+  await restored;
+  schedulePersist();
+  const key = normalizeUrl(pageData.url);
+  const entry = entries.get(key);
+  if (!entry) {
+    stats.misses++;
+    return undefined;
+  }
+
+  if (Date.now() - entry.cachedAt > ttlMs) {
+    entries.delete(key);
+    stats.misses++;
+    stats.expired++;
+    return undefined;
+  }
+
+  const content = pageContent(pageData);
+  if (hashText(content) !== entry.hash &&
+      similarity(entry.terms, new Set(tokenize(content))) < UNCHANGED_SIMILARITY) {
+    stats.misses++;
+    stats.changed++;
+    return undefined;
+  }
+
+  // Re-insert to mark as recently used
+  entries.delete(key);
+  entries.set(key, entry);
+  stats.hits++;
+  return entry.result;
+}
+
+/**
+ * Cache a page's classification result
+ */
+export async function cacheClassification(pageData: PageData, result: ContextResult): Promise<void> {
+  await restored;
+  const key = normalizeUrl(pageData.url);
+  const content = pageContent(pageData);
+
+  entries.delete(key);
+  entries.set(key, {
+    result,
+    hash: hashText(content),
+    terms: new Set(tokenize(content)),
+    cachedAt: Date.now()
+  });
+
+  if (entries.size > MAX_ENTRIES) {
+    entries.delete(entries.keys().next().value as string);
+  }
+  schedulePersist();
+}
+
+/**
+ * Get cache hit/miss counters
+ */
+export async function getCacheStats(): Promise<CacheStats> {
+  await restored;
+  return { ...stats, entries: entries.size };
+}
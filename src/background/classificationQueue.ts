@@ -0,0 +1,99 @@
+/**
+ * Queue that classifies pages sent by content scripts in the service worker
+ */
+import { classifyPageContext } from "../lib/contextEngine";
+import { getClassifierSettings } from "../api/classifierApi";
+import { ClassificationStats, ContextResult, PageData } from "../types/index";
+import { cacheClassification, getCacheStats, getCachedClassification } from "./classificationCache";
+
+// Requests arriving within this window are classified as one batch
+const BATCH_DELAY_MS = 250;
+
+interface PendingClassification {
+  pageData: PageData;
+  resolve: (result: ContextResult | null) => void;
+}
+
+// Latest page snapshot per tab; a newer snapshot replaces the queued one
+const pending = new Map<number, PendingClassification>();
+let batchTimer: ReturnType<typeof setTimeout> | null = null;
+let processing = false;
+
+// Time spent classifying, to estimate what cache hits save
+let classifications = 0;
+let classificationMs = 0;
+
+/**
+ * Queue a page for classification, answering from the cache when the page is unchanged
+ *
+ * @returns The result, or null if a newer snapshot of the tab superseded this one
+ */
+export async function enqueueClassification(tabId: number, pageData: PageData): Promise<ContextResult | null> {
+  const { cacheTtlMinutes } = await getClassifierSettings();
+  const cached = await getCachedClassification(pageData, cacheTtlMinutes * 60 * 1000);
+  if (cached) {
+    cancelClassification(tabId);
+    return cached;
+  }
+
+  return new Promise(resolve => {
+    pending.get(tabId)?.resolve(null);
+    pending.set(tabId, { pageData, resolve });
+    scheduleBatch();
+  });
+}
+
+/**
+ * Drop a tab's queued classification, e.g. when the tab is closed
+ */
+export function cancelClassification(tabId: number): void {
+  pending.get(tabId)?.resolve(null);
+  pending.delete(tabId);
+}
+
+function scheduleBatch(): void {
+  if (batchTimer || processing) return;
+  batchTimer = setTimeout(processBatch, BATCH_DELAY_MS);
+}
+
+/**
+ * Classify everything queued so far, one page at a time so history and
+ * learned-corpus writes never overlap
+ */
+async function processBatch(): Promise<void> {
+  batchTimer = null;
+  processing = true;
+
+  const batch = Array.from(pending.entries());
+  pending.clear();
+
+  for (const [tabId, { pageData, resolve }] of batch) {
+    try {
+      const startedAt = Date.now();
+      const result = await classifyPageContext(pageData);
+      classifications++;
+      classificationMs += Date.now() - startedAt;
+
+      await cacheClassification(pageData, result);
+      resolve(result);
+    } catch (error) {
+      console.error(`[Context] Classification failed for tab ${tabId}:`, error);
+      resolve(null);
+    }
+  }
+
+  processing = false;
+  if (pending.size > 0) scheduleBatch();
+}
+
+/**
+ * Get cache hit/miss counters and classification timing for diagnostics.
+ * The timing covers this service worker instance only.
+ */
+export async function getClassificationStats(): Promise<ClassificationStats> {
+  return {
+    ...await getCacheStats(),
+    classifications,
+    averageMs: classifications > 0 ? classificationMs / classifications : 0
+  };
+}
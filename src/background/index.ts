@@ -1,16 +1,34 @@
 import { groupTabByContext, onTabRemoved, ungroupAllTabs } from "../api/tabsApi";
 import { getStorage, setStorage, getFocusState, setFocusState } from "../api/storageApi";
 import { checkFocusStatus, showFocusNotification } from "../api/focusApi";
-import { classifyPageContext } from "../lib/contextEngine";
-import { extractDomain, DOMAIN_CATEGORIES } from "../lib/contextEngine/urlAnalyzer";
+import { UNCERTAIN_CONTEXT, previewKeywords } from "../lib/contextEngine";
+import { getClassifierSettings } from "../api/classifierApi";
+import { getPomodoroSettings } from "../api/pomodoroApi";
+import { getStrictModeSettings } from "../api/strictModeApi";
+import { extractDomain } from "../lib/contextEngine/urlAnalyzer";
+import { DOMAIN_CATEGORIES } from "../lib/contextEngine/domainCategories";
+import { getRegistrableDomain, lookupDomain } from "../lib/contextEngine/domainMatcher";
+import { recordFeedback } from "../lib/contextEngine/feedbackLearner";
+import { findSubUrlOverride } from "../lib/contextEngine/subUrlOverrides";
 import { saveForLater, releaseParkedLinks, goBackOrClose } from "../api/parkedLinksApi";
 import * as focusEngine from "../lib/focusEngine";
+import { isStrictSession } from "../lib/strictMode";
+import { allowanceCovers, findAllowance } from "../lib/allowances";
 import { applyAllowedContexts } from "./blockingRules";
+import { reconcileSchedule, skipScheduledSession, SCHEDULE_ALARM } from "./scheduler";
+import { getContextNames, getContexts, getParentContext, isContextAllowed } from "../api/contextsApi";
+import { getDomainLists, getDomainMappings } from "../api/domainListsApi";
+import { ClassificationReport, ContextDefinition, ContextResult, PageData } from "../types/index";
+import { enqueueClassification, cancelClassification, getClassificationStats } from "./classificationQueue";
 
 const tabContextMap: Record<number, string> = {};
+// Latest classification result per tab, for the "why is this page X?" view
+const tabClassifications: Record<number, ContextResult & { url: string }> = {};
 const BLOCKED_PAGE_URL = chrome.runtime.getURL("blocked.html");
-// Track tabs that just came from the blocked page to prevent redirect loops
-const recentlyUnblockedTabs = new Set<number>();
+// Pending "which context is this?" prompts for uncertain pages, by notification ID
+const uncertainPrompts = new Map<string, { tabId: number; url: string; candidates: string[] }>();
+// Sites (registrable domains) the user was already asked about in this browser session
+const promptedDomains = new Set<string>();
 
 /**
  * Initialize the extension with proper default settings
@@ -21,20 +39,33 @@ async function initExtension(): Promise<void> {
   
   console.log("[Background] Extension enabled.");
   
-  // Pre-seed domain context map with known categories
-  await chrome.storage.local.set({ domainContextMap: DOMAIN_CATEGORIES });
+  // Built-in categories are merged in under the user's mappings (see getDomainMappings),
+  // so drop copies of them that were seeded into domainContextMap
+  const { domainContextMap = {} } = await getStorage(["domainContextMap"]);
+  const learned = Object.fromEntries(
+    Object.entries(domainContextMap).filter(([domain, context]) => DOMAIN_CATEGORIES[domain] !== context)
+  );
+  if (Object.keys(learned).length !== Object.keys(domainContextMap).length) {
+    await setStorage({ domainContextMap: learned });
+  }
   
   // Check for active sessions - now using the new focusState
   const focusState = await getFocusState();
   if (focusState.active) {
     console.log("[Background] Focus session was active at shutdown, verifying...");
-    // Verify session is still valid (not expired)
-    if (!focusState.endTime || focusState.endTime <= Date.now()) {
+    // Verify session is still valid (not expired); a paused session's time is frozen
+    if (!focusState.endTime || focusState.endTime <= (focusState.pausedAt ?? Date.now())) {
       console.log("[Background] Focus session expired during shutdown, cleaning up");
       await setFocusState({ active: false, endTime: undefined });
     } else {
       console.log(`[Background] Focus session continues until ${new Date(focusState.endTime).toLocaleTimeString()}`);
       
+      // Resume a pause that ran out, then catch up on Pomodoro phases that ended while the browser was closed
+      await focusEngine.resumeIfPauseOver();
+      await focusEngine.advancePomodoro();
+      // Send tabs on sites whose allowance ran out while asleep back to the blocked page
+      await reblockExpiredAllowances();
+      
       // Apply blocking rules for active focus session
       await applyAllowedContexts();
     }
@@ -43,6 +74,9 @@ async function initExtension(): Promise<void> {
     await applyAllowedContexts();
   }
   
+  // Start or end scheduled sessions that came due while the browser was closed or asleep
+  await reconcileSchedule();
+  
   // Set up periodic checks
   setupPeriodicChecks();
 }
@@ -54,63 +88,75 @@ function setupPeriodicChecks() {
   // Set up alarms for periodic checks - minimum 1 minute for MV3
   chrome.alarms.create('focusTick', { periodInMinutes: 1 });     // 60s - check session status
   chrome.alarms.create('focusDrift', { periodInMinutes: 2 });    // 120s - check drift (less urgent)
-  
-  // Handle alarms
-  chrome.alarms.onAlarm.addListener(async ({ name }) => {
-    try {
-      if (name === 'focusTick') {
-        await checkFocusSessionStatus();
-      } else if (name === 'focusDrift') {
-        const isSessionActive = await focusEngine.isActive();
-        if (isSessionActive) {
-          const focusStatus = await checkFocusStatus();
-          if (focusStatus.isLostFocus) {
-            // Immediately send a drift warning if focus is lost
-            await sendDriftWarning(focusStatus);
-          }
+}
+
+/**
+ * Handle alarms. Registered at the top level so an alarm that wakes the
+ * service worker finds its listener before the first run of the script ends.
+ */
+chrome.alarms.onAlarm.addListener(async ({ name }) => {
+  try {
+    if (name === 'focusTick' || name === focusEngine.POMODORO_ALARM || name === focusEngine.PAUSE_ALARM) {
+      await checkFocusSessionStatus();
+      // Also catches allowances whose alarm was missed while asleep
+      if (name === 'focusTick') await reblockExpiredAllowances();
+      // Also catches schedule changes whose alarm was missed while asleep
+      if (name === 'focusTick') await reconcileSchedule();
+    } else if (name === focusEngine.ALLOWANCE_ALARM) {
+      await reblockExpiredAllowances();
+    } else if (name === SCHEDULE_ALARM) {
+      await reconcileSchedule();
+    } else if (name === 'focusDrift') {
+      // Drifting is fine on a Pomodoro break or while paused
+      const isSessionActive = await focusEngine.isActive() &&
+        !(await focusEngine.isOnBreak()) && !(await focusEngine.isPaused());
+      if (isSessionActive) {
+        const focusStatus = await checkFocusStatus();
+        if (focusStatus.isLostFocus) {
+          // Immediately send a drift warning if focus is lost
+          await sendDriftWarning(focusStatus);
         }
       }
-      // Update badge for all alarm types
-      await updateBadge();
-    } catch (err) {
-      console.error(`Error in alarm handler (${name}):`, err);
     }
-  });
-}
+    // Update badge for all alarm types
+    await updateBadge();
+  } catch (err) {
+    console.error(`Error in alarm handler (${name}):`, err);
+  }
+});
 
 /**
  * Handle messages from content scripts and the UI
  */
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
-  if (request.type === "CONTEXT_UPDATE" || request.type === "CONTEXT_DETECTED") {
-    const context = request.context as string;
+  if (request.type === "CLASSIFY_PAGE") {
+    const tabId = sender.tab?.id;
+    const pageData = request.pageData as PageData | undefined;
+    
+    if (tabId != null && pageData) {
+      enqueueClassification(tabId, pageData)
+        .then(result => result && applyClassification(tabId, pageData.url, result))
+        .catch((err) => console.error(err));
+    }
+    
+    return false; // No response needed
+  }
+  else if (request.type === "CONTEXT_UPDATE" || request.type === "CONTEXT_DETECTED") {
+    // Pre-classified context, e.g. from an older content script
     const tabId = sender.tab?.id;
     
     if (tabId != null) {
-      // Check if context has changed
-      const previousContext = tabContextMap[tabId];
-      if (previousContext !== context) {
-        // Notify focus mode about context change
-        // handleContextChange(context);
-      }
-      
-      tabContextMap[tabId] = context;
-      
-      // Store additional context data if available
-      const contextData = {
-        context,
+      applyClassification(tabId, request.url, {
+        primaryContext: request.context,
         confidence: request.confidence,
-        secondaryContexts: request.secondaryContexts,
-        url: request.url
-      };
-      
-      // Save context data to storage for URL blocking functionality
-      chrome.storage.local.set({
-        [request.url]: { context: request.context, confidence: request.confidence }
-      });
-      
-      // Handle the context update
-      handleContextUpdate(tabId, context, contextData).catch((err) => console.error(err));
+        secondaryContexts: request.secondaryContexts || [],
+        features: request.features,
+        uncertain: request.uncertain,
+        candidates: request.candidates,
+        siteSource: request.siteSource,
+        language: request.language,
+        explanation: request.explanation
+      }).catch((err) => console.error(err));
     }
     
     return false; // No response needed
@@ -120,11 +166,16 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return false; // No response needed
   }
   else if (request.type === "START_FOCUS_SESSION") {
-    const { durationMinutes, allowedContexts } = request.payload || {};
+    const { durationMinutes, allowedContexts, excludedContexts, pomodoro, strict } = request.payload || {};
     
     // Use allowedContexts directly if provided, otherwise fallback to blockedCategories
     if (allowedContexts) {
-      focusEngine.start(allowedContexts, durationMinutes)
+      Promise.all([
+        pomodoro ? getPomodoroSettings() : undefined,
+        strict ? getStrictModeSettings() : undefined
+      ])
+        .then(([pomodoroSettings, strictSettings]) =>
+          focusEngine.start(allowedContexts, durationMinutes, excludedContexts, pomodoroSettings, strictSettings))
         .then(() => sendResponse({ success: true }))
         .catch((err) => {
           console.error(err);
@@ -133,15 +184,13 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     } else {
       // Legacy support: convert blockedCategories to allowedContexts
       const { blockedCategories } = request.payload || {};
-      const KNOWN_CONTEXTS = [
-        "Work", "Development", "Research", "Learning",
-        "Entertainment", "Social", "Shopping", "News"
-      ];
-      const allowedContexts = KNOWN_CONTEXTS.filter(
-        ctx => !blockedCategories?.includes(ctx)
-      );
-      
-      focusEngine.start(allowedContexts, durationMinutes)
+      getContextNames()
+        .then(knownContexts => {
+          const allowedContexts = knownContexts.filter(
+            ctx => !blockedCategories?.includes(ctx)
+          );
+          return focusEngine.start(allowedContexts, durationMinutes);
+        })
         .then(() => sendResponse({ success: true }))
         .catch((err) => {
           console.error(err);
@@ -152,7 +201,11 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   }
   else if (request.type === "END_FOCUS_SESSION") {
     const { saveWorkspaceName } = request.payload || {};
-    focusEngine.end(saveWorkspaceName)
+    // Strict sessions can only be ended early through the emergency unlock;
+    // ending a scheduled session by hand shouldn't have the schedule restart it
+    focusEngine.ensureNotStrict("ended")
+      .then(() => skipScheduledSession())
+      .then(() => focusEngine.end(saveWorkspaceName))
       .then(() => sendResponse({ success: true }))
       .catch((err) => {
         console.error("Error ending focus session:", err);
@@ -160,10 +213,22 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       });
     return true; // Required for async response
   }
+  else if (request.type === "PAUSE_FOCUS_SESSION" || request.type === "RESUME_FOCUS_SESSION") {
+    (request.type === "PAUSE_FOCUS_SESSION"
+      ? focusEngine.ensureNotStrict("paused").then(() => focusEngine.pause())
+      : focusEngine.resume())
+      .then(() => sendResponse({ success: true }))
+      .catch((err) => {
+        console.error("Error pausing or resuming focus session:", err);
+        sendResponse({ success: false, error: err.message });
+      });
+    return true; // Required for async response
+  }
   else if (request.type === "GET_FOCUS_TIME_LEFT") {
-    focusEngine.getTimeLeft()
-      .then(seconds => {
-        sendResponse({ seconds });
+    Promise.all([focusEngine.getTimeLeft(), focusEngine.getPhaseStatus(), getFocusState()])
+      .then(([seconds, phase, focusState]) => {
+        const { pausedAt, resumeAt } = focusState;
+        sendResponse({ seconds, phase, paused: pausedAt ? { resumeAt } : undefined, strict: isStrictSession(focusState) });
       })
       .catch(error => {
         console.error("Error getting focus time left:", error);
@@ -171,26 +236,22 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       });
     return true; // Required for async response
   }
-  else if (request.type === "OVERRIDE_BLOCK") {
-    (async () => {
-      try {
-        const tabId = request.tabId ?? sender.tab?.id;
-        if (tabId) {
-          recentlyUnblockedTabs.add(tabId);
-          setTimeout(() => {
-            recentlyUnblockedTabs.delete(tabId);
-          }, 5000);
-          sendResponse({ success: true });
-        } else {
-          sendResponse({ success: false, error: "Tab ID missing" });
-        }
-      } catch (error) {
-        console.error("Error handling override:", error);
-        sendResponse({ success: false });
-      }
-    })();
-    return true;
-  }  
+  else if (request.type === "REQUEST_EMERGENCY_UNLOCK") {
+    focusEngine.requestEmergencyUnlock(request.phrase || "")
+      .then(unlockAt => sendResponse({ success: true, unlockAt }))
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true; // Required for async response
+  }
+  else if (request.type === "ALLOW_DOMAIN_TEMPORARILY") {
+    focusEngine.allowDomainTemporarily(request.domain || "", Number(request.minutes))
+      .then(async ({ allowance, overridesLeft }) => {
+        // The blocked page navigates straight back, so the allow rule has to be in place first
+        await applyAllowedContexts();
+        sendResponse({ success: true, expiresAt: allowance.expiresAt, overridesLeft });
+      })
+      .catch((err) => sendResponse({ success: false, error: err.message }));
+    return true; // Required for async response
+  }
   else if (request.type === "RESTORE_WORKSPACE") {
     const { name } = request.payload || {};
     focusEngine.restoreWorkspace(name)
@@ -284,40 +345,18 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   }
   else if (request.type === "TRAIN_CONTEXT") {
     (async () => {
-      const { url, title, actualContext, predictedContext, isFalsePositive } = request;
+      const { url, title, text, actualContext, predictedContext, isFalsePositive } = request;
       
-      // Get or create context data for this URL
-      const contextData = await getContextData(url);
-      
-      // Update training data
-      if (!contextData.training) {
-        contextData.training = {
-          falsePositives: [],
-          truePositives: []
-        };
-      }
-      
-      if (isFalsePositive) {
-        contextData.training.falsePositives.push({
-          timestamp: Date.now(),
-          actualContext,
-          predictedContext
-        });
-      } else {
-        contextData.training.truePositives.push({
-          timestamp: Date.now(),
-          actualContext,
-          predictedContext
-        });
+      try {
+        // Confirmations reinforce the prediction; corrections move evidence to the actual context
+        const context = isFalsePositive ? actualContext : (actualContext || predictedContext);
+        await recordFeedback({ url, title, text }, context, predictedContext);
+        console.log(`[Context] Learned ${url} as ${context}${isFalsePositive ? ` (was ${predictedContext})` : ""}`);
+        sendResponse({ success: true });
+      } catch (error) {
+        console.error("Error recording classification feedback:", error);
+        sendResponse({ success: false, error: String(error) });
       }
-      
-      // Save updated context data
-      await saveContextData(url, contextData);
-      
-      // Recalculate context weights based on training data
-      await updateContextWeights(url);
-      
-      sendResponse({ success: true });
     })();
     return true; // Required for async response
   }
@@ -349,6 +388,32 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
       });
     return true; // Required for async response
   }
+  else if (request.type === "GET_CLASSIFICATION_REPORT") {
+    getClassificationReport(request.tabId, request.url)
+      .then(report => sendResponse(report))
+      .catch(error => {
+        console.error("Error building classification report:", error);
+        sendResponse(null);
+      });
+    return true; // Required for async response
+  }
+  else if (request.type === "GET_CLASSIFIER_DIAGNOSTICS") {
+    getClassificationStats().then(sendResponse);
+    return true; // Required for async response
+  }
+  else if (request.type === "PREVIEW_KEYWORDS") {
+    // Score a tab's current text with a draft keyword dictionary from the options page
+    (async () => {
+      try {
+        const pageData: PageData | undefined = await chrome.tabs.sendMessage(request.tabId, { type: "GET_PAGE_DATA" });
+        sendResponse(pageData ? await previewKeywords(pageData, request.keywords) : null);
+      } catch (error) {
+        console.error("[Context] Keyword preview failed:", error);
+        sendResponse(null);
+      }
+    })();
+    return true; // Required for async response
+  }
   else if (request.type === "CONTEXT_OVERRIDE") {
     (async () => {
       console.log(`Context override: ${request.domain} from ${request.originalContext} to ${request.newContext}`);
@@ -360,6 +425,65 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   return false; // No response needed for other messages
 });
 
+/**
+ * Record a tab's classification and group/block it accordingly
+ */
+async function applyClassification(tabId: number, url: string, result: ContextResult): Promise<void> {
+  // Sub-contexts are grouped and blocked in their own right
+  const context = result.subContext ?? result.primaryContext;
+  const previous = tabClassifications[tabId];
+  
+  tabContextMap[tabId] = context;
+  tabClassifications[tabId] = { ...result, url };
+  
+  // Same page, same context: nothing to regroup
+  if (previous && previous.url === url && (previous.subContext ?? previous.primaryContext) === context) return;
+  
+  // Store additional context data if available
+  const contextData: ContextUpdateData = {
+    context,
+    confidence: result.confidence,
+    secondaryContexts: result.secondaryContexts,
+    uncertain: result.uncertain,
+    candidates: result.candidates,
+    siteSource: result.siteSource,
+    subUrlOverride: result.subUrlOverride,
+    scores: getContextScores(result),
+    url
+  };
+  
+  // Save context data to storage for URL blocking functionality
+  await chrome.storage.local.set({
+    [url]: { context, confidence: result.confidence }
+  });
+  
+  // Handle the context update
+  await handleContextUpdate(tabId, context, contextData);
+}
+
+/**
+ * The parts of a classification result that grouping and blocking act on
+ */
+type ContextUpdateData = Partial<Pick<ContextResult,
+  "confidence" | "secondaryContexts" | "uncertain" | "candidates" | "siteSource" | "subUrlOverride">> & {
+  context?: string;
+  /** Every context the page scored, for multi-context blocking */
+  scores?: Record<string, number>;
+  url: string;
+};
+
+/**
+ * Every context a result scored: the full breakdown when the classifier kept
+ * it, otherwise the primary and secondary contexts
+ */
+function getContextScores(result: ContextResult): Record<string, number> {
+  if (result.features) return result.features;
+  return Object.fromEntries([
+    [result.primaryContext, result.confidence],
+    ...result.secondaryContexts.map(({ context, confidence }) => [context, confidence])
+  ]);
+}
+
 /**
  * Handle any focus mode toggle (enable/disable)
  */
@@ -373,6 +497,7 @@ async function toggleFocusMode(enabled: boolean): Promise<void> {
     await applyAllowedContexts();
   } else {
     // Turn off focus mode
+    await focusEngine.ensureNotStrict("ended");
     await focusEngine.end();
     
     // Remove all blocking rules
@@ -386,38 +511,188 @@ async function toggleFocusMode(enabled: boolean): Promise<void> {
 async function handleContextUpdate(
   tabId: number, 
   context: string, 
-  contextData?: any
+  contextData?: ContextUpdateData
 ): Promise<void> {
   const { autoGroupEnabled = true } = await getStorage(["autoGroupEnabled"]);
   if (!autoGroupEnabled) return;
 
   const domain = extractDomain(contextData?.url || "");
-  const { domainContextMap = {} } =
-    await chrome.storage.local.get("domainContextMap") as { domainContextMap: Record<string,string> };
+  const { contexts: domainMappings } = await getDomainMappings();
+  const mapping = lookupDomain(domainMappings, domain);
+
+  // Uncertain pages with no known mapping are neither grouped nor mapped
+  if (context === UNCERTAIN_CONTEXT && !mapping) {
+    await handleUncertainContext(tabId, domain, contextData);
+    return;
+  }
+
+  // Sub-URL overrides and site-specific signals are page-level, so they win over the domain
+  // mapping but are never written back to it (r/typescript shouldn't make all of reddit Development)
+  if (contextData?.subUrlOverride || contextData?.siteSource) {
+    await groupTabByContext(tabId, context);
+    updateBadge();
+    // A sub-URL override is the user's own call, so other contexts the page scores for don't count
+    if (await focusEngine.isBlocked(context, contextData.subUrlOverride ? undefined : contextData.scores)) {
+      await redirectToBlockedPage(tabId, context, contextData.url || "");
+    }
+    return;
+  }
 
   // 🚨 NEW: override the context if we have one
-  const overriddenContext = domainContextMap[domain] ?? context;
+  const overriddenContext = resolveMappedContext(mapping?.value, context, await getContexts());
 
   // Group tab using the correct context (override > detected)
   await groupTabByContext(tabId, overriddenContext);
   updateBadge();
 
-  // Update domain → context map only if it's new
-  if (domain && domainContextMap[domain] !== overriddenContext) {
-    domainContextMap[domain] = overriddenContext;
-    await chrome.storage.local.set({ domainContextMap });
+  // Update domain → context map only if it's new, keyed by the site rather than the host
+  if (domain && !mapping) {
+    const { domainContextMap = {} } = await getStorage(["domainContextMap"]);
+    domainContextMap[getRegistrableDomain(domain)] = overriddenContext;
+    await setStorage({ domainContextMap });
     await applyAllowedContexts(); // Rebuild DNR rules
 
     // Check if the context is still blocked — if so, redirect again
-    if (await focusEngine.isBlocked(overriddenContext)) {
-      const url = contextData?.url || "";
-      const blockedUrl = chrome.runtime.getURL("blocked.html") + 
-        `?context=${encodeURIComponent(overriddenContext)}&url=${encodeURIComponent(url)}`;
-      chrome.tabs.update(tabId, { url: blockedUrl });
+    if (await focusEngine.isBlocked(overriddenContext, contextData?.scores)) {
+      await redirectToBlockedPage(tabId, overriddenContext, contextData?.url || "");
     }
   }
 }
 
+/**
+ * The context a page is grouped and blocked by: its domain mapping, unless the
+ * classifier placed the page in a sub-context of the mapped context
+ * (a music page on a site mapped to Entertainment stays Music)
+ */
+function resolveMappedContext(
+  mappedContext: string | undefined,
+  classifiedContext: string,
+  contexts: ContextDefinition[]
+): string {
+  if (mappedContext && getParentContext(classifiedContext, contexts) === mappedContext) {
+    return classifiedContext;
+  }
+  return mappedContext ?? classifiedContext;
+}
+
+/**
+ * Explain how a tab's context was decided: the classifier's breakdown plus
+ * the stored domain mapping, which is what grouping and blocking go by
+ */
+async function getClassificationReport(tabId?: number, url?: string): Promise<ClassificationReport> {
+  const classified = tabId != null ? tabClassifications[tabId] : undefined;
+  const pageUrl = url || classified?.url || "";
+  // Only trust the stored result if it belongs to the page being explained
+  const result = classified && classified.url === pageUrl ? classified : undefined;
+
+  const domain = extractDomain(pageUrl);
+  const { contexts: domainMappings, sources } = await getDomainMappings();
+  const mapping = domain ? lookupDomain(domainMappings, domain) : undefined;
+  const mappedContext = mapping?.value;
+  const source = mapping ? sources[mapping.key] : undefined;
+  const mappingList = source && source !== "builtin" && source !== "user"
+    ? (await getDomainLists()).find(list => list.id === source)
+    : undefined;
+  const override = pageUrl ? await findSubUrlOverride(pageUrl) : undefined;
+
+  const contexts = await getContexts();
+  const classifiedContext = result ? result.subContext ?? result.primaryContext : undefined;
+  let effectiveContext = classifiedContext ? resolveMappedContext(mappedContext, classifiedContext, contexts) : mappedContext;
+  if (override) {
+    effectiveContext = override.context;
+  } else if (result?.siteSource) {
+    effectiveContext = classifiedContext;
+  } else if (result?.uncertain && !mappedContext) {
+    effectiveContext = undefined;
+  }
+
+  const focusState = await getFocusState();
+  const contextBlocked = !!effectiveContext && focusState.active && !focusState.pausedAt &&
+    !findAllowance(focusState, domain) && !isContextAllowed(effectiveContext, focusState, contexts);
+  // Mirrors handleContextUpdate: the multi-label policy only applies to classified pages without an override
+  const allowedBy = contextBlocked && result && !override
+    ? await focusEngine.findAllowingContext(getContextScores(result))
+    : undefined;
+
+  return {
+    url: pageUrl,
+    domain,
+    result,
+    override,
+    mappedContext,
+    mappingKey: mapping?.key,
+    mappingSource: source === "builtin" ? "builtin" : mappingList ? "list" : source ? "learned" : undefined,
+    mappingList: mappingList?.name,
+    effectiveContext,
+    allowedBy,
+    blocked: contextBlocked && !allowedBy
+  };
+}
+
+/**
+ * Send a tab to the blocked page, keeping the context and original URL
+ */
+async function redirectToBlockedPage(tabId: number, context: string, url: string): Promise<void> {
+  // A temporarily allowed domain stays open whatever its pages are classified as
+  if (findAllowance(await getFocusState(), extractDomain(url))) return;
+  
+  const blockedUrl = chrome.runtime.getURL("blocked.html") + 
+    `?context=${encodeURIComponent(context)}&url=${encodeURIComponent(url)}`;
+  chrome.tabs.update(tabId, { url: blockedUrl });
+}
+
+/**
+ * Optionally ask the user which context an uncertain page belongs to
+ */
+async function handleUncertainContext(tabId: number, domain: string, contextData?: ContextUpdateData): Promise<void> {
+  const { askWhenUncertain } = await getClassifierSettings();
+  const candidates = (contextData?.candidates || [])
+    .map(c => c.context)
+    .slice(0, 2);
+  
+  const site = domain ? getRegistrableDomain(domain) : "";
+  if (!askWhenUncertain || !site || candidates.length === 0 || promptedDomains.has(site)) {
+    console.log(`[Context] ${domain || "Page"} is uncertain, leaving it ungrouped`);
+    return;
+  }
+  promptedDomains.add(site);
+  
+  const notificationId = `uncertain-${tabId}-${Date.now()}`;
+  uncertainPrompts.set(notificationId, { tabId, url: contextData?.url || "", candidates });
+  
+  chrome.notifications.create(notificationId, {
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon48.png'),
+    title: 'Which context is this page?',
+    message: `Context Focus isn't sure how to classify ${domain}.`,
+    buttons: candidates.map(context => ({ title: context }))
+  });
+}
+
+/**
+ * Apply the context the user picked for an uncertain page
+ */
+chrome.notifications.onButtonClicked.addListener((notificationId, buttonIndex) => {
+  const prompt = uncertainPrompts.get(notificationId);
+  if (!prompt) return;
+  
+  uncertainPrompts.delete(notificationId);
+  chrome.notifications.clear(notificationId);
+  
+  const context = prompt.candidates[buttonIndex];
+  if (!context) return;
+  
+  (async () => {
+    await recordFeedback({ url: prompt.url }, context);
+    tabContextMap[prompt.tabId] = context;
+    await handleContextUpdate(prompt.tabId, context, { url: prompt.url });
+  })().catch((err) => console.error("Error applying picked context:", err));
+});
+
+chrome.notifications.onClosed.addListener((notificationId) => {
+  uncertainPrompts.delete(notificationId);
+});
+
 /**
  * Updates the badge with current focus status
  */
@@ -431,9 +706,8 @@ async function updateBadge(): Promise<void> {
       return;
     }
     
-    // Show a simple indicator
-    chrome.action.setBadgeText({ text: "•" });
-    chrome.action.setBadgeBackgroundColor({ color: "#1565c0" }); // Blue
+    // Show a simple indicator, which changes on Pomodoro breaks and while paused
+    focusEngine.showSessionBadge(focusState.pomodoro?.phase, !!focusState.pausedAt);
   } catch (error) {
     console.error("Error updating badge:", error);
   }
@@ -515,10 +789,16 @@ function setupFocusSessionUrlBlocking(): void {
 }
 
 /**
- * Check if a focus session should be ended
+ * Resume a pause that's run its length, move a Pomodoro session to its current
+ * phase and end a session whose time is up
  */
 async function checkFocusSessionStatus(): Promise<void> {
-  const endTime = (await getFocusState()).endTime;
+  await focusEngine.resumeIfPauseOver();
+  await focusEngine.advancePomodoro();
+  
+  // A paused session's time is frozen; the schedule ends paused scheduled sessions
+  const { endTime, pausedAt } = await getFocusState();
+  if (pausedAt) return;
   if (endTime && Date.now() >= endTime) {
     const active = await focusEngine.isActive();
     if (active) {
@@ -537,109 +817,102 @@ async function checkFocusSessionStatus(): Promise<void> {
   }
 }
 
+/**
+ * Block tabs on domains whose temporary allowance has run out again
+ */
+async function reblockExpiredAllowances(): Promise<void> {
+  const domains = await focusEngine.expireAllowances();
+  if (domains.length === 0) return;
+  
+  const tabs = await chrome.tabs.query({});
+  for (const tab of tabs) {
+    if (tab.id == null || !tab.url?.startsWith("http")) continue;
+    const host = extractDomain(tab.url);
+    if (!domains.some(domain => allowanceCovers(domain, host))) continue;
+    
+    // Pages classified while allowed are blocked by their own context, the rest by their domain
+    const classification = tabClassifications[tab.id];
+    const context = tabContextMap[tab.id];
+    if (context && classification?.url === tab.url &&
+        await focusEngine.isBlocked(context, getContextScores(classification))) {
+      await redirectToBlockedPage(tab.id, context, tab.url);
+    } else {
+      await checkNavigation(tab.id, tab.url);
+    }
+  }
+}
+
 /**
  * Cleanup in-memory reference on tab removal
  */
 onTabRemoved((removedTabId) => {
   delete tabContextMap[removedTabId];
+  delete tabClassifications[removedTabId];
+  cancelClassification(removedTabId);
 });
 
-// Function to get context data for a URL
-async function getContextData(url: string): Promise<any> {
-  const result = await chrome.storage.local.get([url]);
-  return result[url] || { contexts: [], training: { falsePositives: [], truePositives: [] } };
-}
-
-// Function to save context data for a URL
-async function saveContextData(url: string, data: any): Promise<void> {
-  await chrome.storage.local.set({ [url]: data });
-}
-
-// Function to update context weights based on training data
-async function updateContextWeights(url: string): Promise<void> {
-  const contextData = await getContextData(url);
-  const { training } = contextData;
-  
-  if (!training) return;
-  
-  // Calculate weights based on false positives and true positives
-  const weights: { [key: string]: number } = {};
-  
-  // Decrease weight for contexts that frequently cause false positives
-  training.falsePositives.forEach((fp: any) => {
-    weights[fp.predictedContext] = (weights[fp.predictedContext] || 1) * 0.9;
-  });
-  
-  // Increase weight for contexts that are frequently true positives
-  training.truePositives.forEach((tp: any) => {
-    weights[tp.predictedContext] = (weights[tp.predictedContext] || 1) * 1.1;
-  });
-  
-  // Update context weights
-  contextData.weights = weights;
-  await saveContextData(url, contextData);
-}
-
 // Add listeners for focus state changes to update DNR rules
 chrome.storage.onChanged.addListener(async (changes) => {
-  if (changes.focusState) {
-    // Focus state has changed, update DNR rules
+  if (changes.focusState || changes.contexts || changes.subUrlOverrides || changes.domainLists) {
+    // Focus state, context registry, sub-URL overrides or imported domain lists have changed, update DNR rules
     await applyAllowedContexts();
   }
+  if (changes.focusSchedules) {
+    await reconcileSchedule();
+  }
 });
 
 // Block before navigation is committed
-chrome.webNavigation.onBeforeNavigate.addListener(async ({ tabId, frameId, url }) => {
+chrome.webNavigation.onBeforeNavigate.addListener(({ tabId, frameId, url }) => {
+  if (frameId !== 0) return;                     // only top frame
+  checkNavigation(tabId, url).catch((err) => console.error(err));
+});
+
+// Single-page apps change the URL with history.pushState, which never fires onBeforeNavigate
+chrome.webNavigation.onHistoryStateUpdated.addListener(({ tabId, frameId, url }) => {
   if (frameId !== 0) return;                     // only top frame
+  checkNavigation(tabId, url).catch((err) => console.error(err));
   
+  // Have the page send its new content for reclassification
+  chrome.tabs.sendMessage(tabId, { type: "ROUTE_CHANGED", url }).catch(() => {
+    // No content script in this tab (e.g. restricted page)
+  });
+});
+
+/**
+ * Redirect a top-frame navigation to the blocked page if its domain's context isn't allowed
+ */
+async function checkNavigation(tabId: number, url: string): Promise<void> {
   // Skip extension pages and about:blank
   if (url.startsWith(chrome.runtime.getURL("")) || url === "about:blank") return;
   
-  // Check if tab was recently unblocked - give it a pass
-  if (recentlyUnblockedTabs.has(tabId)) {
-    console.log(`[Block] Tab ${tabId} is in temporary allowlist, skipping check`);
-    return;
-  }
-  
   const focusState = await getFocusState();
-  if (!focusState.active) return;
+  if (!focusState.active || focusState.pausedAt) return;
 
-  // Get current tab's URL to check if we're coming from blocked.html
-  try {
-    const tab = await chrome.tabs.get(tabId);
-    const currentUrl = tab.url || "";
-    
-    // If user is coming from the blocked page, allow them to navigate and add to temporary allowlist
-    if (currentUrl.includes("blocked.html")) {
-      console.log(`[Block] Tab ${tabId} coming from blocked page, allowing navigation`);
-      recentlyUnblockedTabs.add(tabId);
-      
-      // Remove from allowlist after 5 seconds
-      setTimeout(() => {
-        recentlyUnblockedTabs.delete(tabId);
-        console.log(`[Block] Tab ${tabId} removed from temporary allowlist`);
-      }, 5000);
-      
-      return;
-    }
-  } catch (err) {
-    // Continue if tab lookup fails
+  // Leaving the blocked page takes a temporary allowance (or a permanent reclassification)
+  const domain = extractDomain(url);
+  const allowance = findAllowance(focusState, domain);
+  if (allowance) {
+    console.log(`[Block] ${domain} is allowed until ${new Date(allowance.expiresAt).toLocaleTimeString()}`);
+    return;
   }
 
+  // A sub-URL override wins over the domain's context, in either direction
+  const override = await findSubUrlOverride(url);
+  
   // Check if the domain is already classified and should be blocked
-  const domain = extractDomain(url);
-  const ctxMap = (await chrome.storage.local.get("domainContextMap")).domainContextMap || {};
-  const context = ctxMap[domain];
+  const { contexts: domainMappings } = await getDomainMappings();
+  const context = override?.context ?? lookupDomain(domainMappings, domain)?.value;
   
   // Only block if we have a context and it's not allowed
-  if (context && !focusState.allowedContexts.includes(context)) {
-    console.log(`[Block] Blocking domain ${domain} with context ${context}`);
+  if (context && !isContextAllowed(context, focusState, await getContexts())) {
+    console.log(override
+      ? `[Block] Blocking ${url} with context ${context} (override ${override.prefix})`
+      : `[Block] Blocking domain ${domain} with context ${context}`);
     // Pass context and original URL as query parameters
-    const blockedUrl = chrome.runtime.getURL("blocked.html") + 
-      `?context=${encodeURIComponent(context)}&url=${encodeURIComponent(url)}`;
-    chrome.tabs.update(tabId, { url: blockedUrl });
+    await redirectToBlockedPage(tabId, context, url);
   }
-});
+}
 
 // Set default settings on installation/update
 chrome.runtime.onInstalled.addListener(details => {
@@ -665,7 +938,7 @@ chrome.runtime.onInstalled.addListener(details => {
       "focusSessionEndTime",
       "blockedCategories",
       "focusState"
-    ], result => {
+    ], async result => {
       // Always set extension to enabled
       const update: Record<string, any> = {
         extensionEnabled: true
@@ -676,10 +949,7 @@ chrome.runtime.onInstalled.addListener(details => {
         console.log("Migrating from old focus session format to new focusState format");
         
         // Convert to new FocusState format (invert the block logic to allowedContexts)
-        const knownContexts = [
-          "Work", "Development", "Research", "Learning", 
-          "Entertainment", "Social", "Shopping", "News"
-        ];
+        const knownContexts = await getContextNames();
         
         // Calculate allowed contexts by excluding blocked ones
         const blockedCategories = result.blockedCategories || [];
@@ -708,5 +978,6 @@ chrome.runtime.onInstalled.addListener(details => {
   }
 });
 
-// Kick off on load
+// Kick off on load. The classifier loads its model on the first page it classifies,
+// not on every wake-up (most are alarms that never classify anything).
 initExtension().catch(console.error);
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * Starts and ends focus sessions from the recurring schedule.
+ *
+ * Nothing here keeps time in memory: every check recomputes which entries
+ * should be running from the wall clock, so it gives the same answer after a
+ * service worker restart, after the machine wakes up or when alarms fire late.
+ */
+import { getFocusState, getStorage, setFocusState, setStorage } from "../api/storageApi";
+import { getSchedules } from "../api/schedulesApi";
+import { getActiveOccurrences, getNextScheduleChange, mergeOccurrences } from "../lib/schedule";
+import * as focusEngine from "../lib/focusEngine";
+
+// Alarm that fires when the next schedule entry starts or ends
+export const SCHEDULE_ALARM = "focusSchedule";
+
+// Checks run one at a time, so two triggers at once can't both start a session
+let pendingCheck: Promise<void> = Promise.resolve();
+
+/**
+ * Bring the focus session in line with the schedule and set the alarm for the next change.
+ *
+ * A session started by hand is left alone; the schedule only ends or changes
+ * sessions it started itself. Overlapping entries run as one session.
+ */
+export function reconcileSchedule(): Promise<void> {
+  pendingCheck = pendingCheck.then(checkSchedule, checkSchedule);
+  return pendingCheck;
+}
+
+async function checkSchedule(): Promise<void> {
+  const now = Date.now();
+  const schedules = await getSchedules();
+  const active = getActiveOccurrences(schedules, now);
+  const focusState = await getFocusState();
+  const scheduled = focusState.active && !!focusState.scheduleIds;
+
+  if (active.length === 0) {
+    if (scheduled) {
+      console.log("[Schedule] Scheduled session is over, ending it");
+      await focusEngine.end();
+    }
+  } else if (!focusState.active) {
+    const { scheduleSkippedUntil = 0 } = await getStorage(["scheduleSkippedUntil"]);
+    if (now >= scheduleSkippedUntil) {
+      const merged = mergeOccurrences(active);
+      console.log(`[Schedule] Starting scheduled session until ${new Date(merged.endTime).toLocaleTimeString()}`);
+      await focusEngine.start(merged.allowedContexts, (merged.endTime - now) / 60000, merged.excludedContexts);
+      await setFocusState({ endTime: merged.endTime, scheduleIds: active.map(o => o.entry.id) });
+    }
+  } else if (scheduled) {
+    // An overlapping entry started or ended, or an entry was edited
+    const merged = mergeOccurrences(active);
+    const ids = active.map(o => o.entry.id);
+    if (ids.join() !== focusState.scheduleIds!.join() || merged.endTime !== focusState.endTime) {
+      await setFocusState({ ...merged, scheduleIds: ids });
+    }
+  }
+
+  const next = getNextScheduleChange(schedules, now);
+  if (next) {
+    chrome.alarms.create(SCHEDULE_ALARM, { when: next });
+  } else {
+    chrome.alarms.clear(SCHEDULE_ALARM);
+  }
+}
+
+/**
+ * Remember that the user ended a scheduled session, so it isn't restarted
+ * before its entries would have ended anyway
+ */
+export async function skipScheduledSession(): Promise<void> {
+  const { active, scheduleIds, endTime } = await getFocusState();
+  if (active && scheduleIds && endTime) {
+    await setStorage({ scheduleSkippedUntil: endTime });
+  }
+}
@@ -1,20 +1,32 @@
 // blocked.ts (CSP-compliant external script for blocked.html)
+import { formatContextPath, getContexts, isContextAllowed, sortContextTree } from "./api/contextsApi";
+import { getDomainMappings } from "./api/domainListsApi";
+import { getDomainKey } from "./lib/contextEngine/domainMatcher";
+import { isStrictSession } from "./lib/strictMode";
+import { ALLOWANCE_MINUTES } from "./lib/allowances";
 
 const urlParams = new URLSearchParams(window.location.search);
 const detectedContext = urlParams.get("context") || "Unknown";
-const originalUrl = urlParams.get("url") || "";
-const domain = originalUrl ? new URL(originalUrl).hostname : "";
+// DNR redirects carry the blocked URL in the fragment, since they can't encode it
+const originalUrl = urlParams.get("url") || window.location.hash.slice(1);
+const domain = parseHostname(originalUrl);
 
-document.addEventListener("DOMContentLoaded", () => {
+document.addEventListener("DOMContentLoaded", async () => {
+  const contexts = await getContexts();
   const detectedEl = document.getElementById("detected-context");
   if (detectedEl) {
-    detectedEl.textContent = detectedContext;
+    detectedEl.textContent = formatContextPath(detectedContext, contexts);
   }
 
   updateCountdown();
   setInterval(updateCountdown, 5000);
 
   const selector = document.getElementById("context-selector") as HTMLSelectElement;
+  if (selector) {
+    for (const context of sortContextTree(contexts)) {
+      selector.add(new Option(formatContextPath(context.name, contexts), context.name));
+    }
+  }
   if (selector && detectedContext !== "Unknown") {
     for (let i = 0; i < selector.options.length; i++) {
       if (selector.options[i].value === detectedContext) {
@@ -24,9 +36,34 @@ document.addEventListener("DOMContentLoaded", () => {
     }
   }
 
+  document.getElementById("explain-link")?.addEventListener("click", async (event) => {
+    event.preventDefault();
+    const tab = await chrome.tabs.getCurrent();
+    const params = new URLSearchParams({ url: originalUrl });
+    if (tab?.id != null) params.set("tabId", String(tab.id));
+    chrome.tabs.create({ url: chrome.runtime.getURL(`explain.html?${params}`) });
+  });
+
   const saveBtn = document.getElementById("save-continue") as HTMLButtonElement;
   const backBtn = document.getElementById("back-button") as HTMLButtonElement;
 
+  // Strict sessions can't be escaped by letting the page through or reclassifying it
+  const strictNote = document.getElementById("strict-note");
+  const reclassifyIntro = document.getElementById("reclassify-intro");
+  const allowanceArea = document.getElementById("allowance-area");
+  const initialState = await chrome.runtime.sendMessage({ type: "FOCUS_STATUS" });
+  if (initialState && isStrictSession(initialState)) {
+    selector.hidden = true;
+    saveBtn.hidden = true;
+    if (reclassifyIntro) reclassifyIntro.hidden = true;
+    if (allowanceArea) allowanceArea.hidden = true;
+    if (strictNote) strictNote.hidden = false;
+  } else if (domain) {
+    renderAllowances(initialState?.overridesLeft ?? 0);
+  } else if (allowanceArea) {
+    allowanceArea.hidden = true;
+  }
+
   saveBtn?.addEventListener("click", async () => {
     if (!selector.value) {
       alert("Please select a context category first");
@@ -35,21 +72,25 @@ document.addEventListener("DOMContentLoaded", () => {
 
     try {
       const focusState = await chrome.runtime.sendMessage({ type: "FOCUS_STATUS" });
-      if (focusState?.allowedContexts && !focusState.allowedContexts.includes(selector.value)) {
+      if (focusState && isStrictSession(focusState)) {
+        alert("This is a strict session, so pages can't be reclassified until it's over");
+        return;
+      }
+      if (focusState?.allowedContexts && !isContextAllowed(selector.value, focusState, contexts)) {
         document.body.classList.add("off-track");
         alert(`${selector.value} context is not allowed during your current focus session`);
         return;
       }
 
+      // Unlike a temporary allowance, this changes the site's context for good
+      if (domain && !confirm(`Always treat ${domain} as ${formatContextPath(selector.value, contexts)}?`)) {
+        return;
+      }
+
       document.body.classList.add("on-track");
+      // The background rebuilds its blocking rules before the override is acknowledged
       if (domain) await saveContextOverride(domain, selector.value);
-      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      await chrome.runtime.sendMessage({ type: "OVERRIDE_BLOCK", tabId: tab?.id });
-
-      // Add delay to let background script register unblock
-      setTimeout(() => {
-        window.location.href = originalUrl || navigateToContextSite(selector.value);
-      }, 300);
+      window.location.href = originalUrl || navigateToContextSite(selector.value);
     } catch (err) {
       console.error("Error saving context:", err);
       alert("There was an error saving your selection. Please try again.");
@@ -73,6 +114,55 @@ document.addEventListener("DOMContentLoaded", () => {
   });
 });
 
+/**
+ * Hostname of the blocked URL, or "" when it's missing or malformed
+ */
+function parseHostname(url: string): string {
+  try {
+    return url ? new URL(url).hostname : "";
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Buttons that let the site through for a few minutes, while the session's override budget lasts
+ */
+function renderAllowances(overridesLeft: number): void {
+  const domainEl = document.getElementById("allowance-domain");
+  const buttons = document.getElementById("allowance-buttons");
+  const budget = document.getElementById("allowance-budget");
+  if (!domainEl || !buttons || !budget) return;
+
+  domainEl.textContent = domain;
+  budget.textContent = overridesLeft > 0
+    ? `${overridesLeft} ${overridesLeft === 1 ? "override" : "overrides"} left this session`
+    : "No overrides left this session";
+
+  buttons.innerHTML = "";
+  for (const minutes of ALLOWANCE_MINUTES) {
+    const button = document.createElement("button");
+    button.textContent = `${minutes} min`;
+    button.disabled = overridesLeft <= 0;
+    button.addEventListener("click", () => allowTemporarily(minutes));
+    buttons.appendChild(button);
+  }
+}
+
+async function allowTemporarily(minutes: number): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({ type: "ALLOW_DOMAIN_TEMPORARILY", domain, minutes });
+    if (!response?.success) {
+      alert(response?.error || "This site couldn't be allowed");
+      return;
+    }
+    window.location.href = originalUrl;
+  } catch (err) {
+    console.error("Error allowing site:", err);
+    alert("There was an error allowing this site. Please try again.");
+  }
+}
+
 async function safeGetTimeLeft(): Promise<{ seconds: number }> {
   try {
     return await chrome.runtime.sendMessage({ type: "GET_FOCUS_TIME_LEFT" });
@@ -117,8 +207,19 @@ async function saveContextOverride(domain: string, context: string): Promise<voi
   try {
     const storage = await chrome.storage.local.get("domainContextMap");
     const domainContextMap = storage.domainContextMap || {};
-    domainContextMap[domain] = context;
+    // Correct whichever entry decided the page, so the correction takes effect
+    const { contexts } = await getDomainMappings();
+    domainContextMap[getDomainKey(contexts, domain)] = context;
     await chrome.storage.local.set({ domainContextMap });
+    if (originalUrl && context !== detectedContext) {
+      await chrome.runtime.sendMessage({
+        type: "TRAIN_CONTEXT",
+        url: originalUrl,
+        actualContext: context,
+        predictedContext: detectedContext,
+        isFalsePositive: true
+      });
+    }
     await chrome.runtime.sendMessage({
       type: "CONTEXT_OVERRIDE",
       domain,
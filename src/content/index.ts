@@ -2,20 +2,30 @@
  * Content script for Context Focus
  * 
  * This script runs on each page and does only one thing:
- * 1. Classify the current page context
- * 2. Send the classification to the background script
+ * 1. Extract compact page data
+ * 2. Send it to the background script, which classifies it
  */
 
-import { classifyPageContext } from "../lib/contextEngine";
+import { extractSiteSignals } from "../lib/contextEngine/siteExtractors";
+import { PageData } from "../types/index";
 
-// Keep track of last context (to avoid sending duplicate messages)
-let lastContext: string | null = null;
+// Keep track of the last page data sent (to avoid sending duplicate messages)
+let lastSentSignature: string | null = null;
+
+// URL the page was last checked at, to notice single-page-app route changes
+let lastUrl = window.location.href;
+
+// SPAs render the new route after the URL changes, so check again once it has settled
+const ROUTE_SETTLE_DELAYS_MS = [500, 2000];
 
 // Initialize context detection
 async function initContextDetection(): Promise<void> {
   // Register for future DOM changes
   setupMutationObserver();
   
+  // Register for history-based navigation
+  setupRouteChangeDetection();
+  
   // Initial classification
   await detectAndSendContext();
 }
@@ -26,6 +36,9 @@ async function initContextDetection(): Promise<void> {
 function setupMutationObserver(): void {
   // Observe changes to the page content
   const observer = new MutationObserver(() => {
+    // Route changes count even in background tabs
+    checkForRouteChange();
+    
     // Skip if document is hidden (tab not visible)
     if (document.hidden) return;
     
@@ -47,6 +60,40 @@ function setupMutationObserver(): void {
   });
 }
 
+/**
+ * Watch for URL changes that don't reload the page (history.pushState, back/forward)
+ */
+function setupRouteChangeDetection(): void {
+  window.addEventListener('popstate', checkForRouteChange);
+  window.addEventListener('hashchange', checkForRouteChange);
+  
+  // The Navigation API reports pushState/replaceState navigations from the page's own scripts
+  const navigation = (window as unknown as { navigation?: EventTarget }).navigation;
+  navigation?.addEventListener('navigatesuccess', checkForRouteChange);
+  
+  // The background script also reports history state updates from webNavigation
+  chrome.runtime.onMessage.addListener((msg) => {
+    if (msg.type === "ROUTE_CHANGED") checkForRouteChange();
+  });
+}
+
+// Timers for checks scheduled after a route change
+let routeChangeTimers: number[] = [];
+
+/**
+ * Reclassify once the page has moved to a new URL
+ */
+function checkForRouteChange(): void {
+  const url = window.location.href;
+  if (url === lastUrl) return;
+  lastUrl = url;
+  
+  routeChangeTimers.forEach(timer => window.clearTimeout(timer));
+  routeChangeTimers = ROUTE_SETTLE_DELAYS_MS.map(delay =>
+    window.setTimeout(() => detectAndSendContext(), delay)
+  );
+}
+
 // Timer for debouncing context detection
 let contextDetectionTimer: number | null = null;
 
@@ -69,7 +116,7 @@ function scheduleContextCheck(): void {
 /**
  * Extract useful data from the current page
  */
-function extractPageData() {
+function extractPageData(): PageData {
   // Get basic page info
   const url = window.location.href;
   const title = document.title;
@@ -98,33 +145,35 @@ function extractPageData() {
     title,
     fullText: visibleText.trim(),
     metaDescription,
-    metaKeywords
+    metaKeywords,
+    siteSignals: extractSiteSignals(document, url),
+    language: document.documentElement.lang
   };
 }
 
+// The options page previews keyword edits against the page's current text
+chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+  if (msg.type !== "GET_PAGE_DATA") return;
+  sendResponse(extractPageData());
+});
+
 /**
- * Detect the context of the current page and send it to the background script
+ * Send the current page's data to the background script for classification
  */
 async function detectAndSendContext(): Promise<void> {
   try {
     // Extract page data
     const pageData = extractPageData();
     
-    // Classify context
-    const contextResult = await classifyPageContext(pageData);
+    // Only send if the page has changed
+    const signature = `${pageData.url}\n${pageData.title}\n${pageData.fullText}`;
+    if (signature === lastSentSignature) return;
+    lastSentSignature = signature;
     
-    // Only send if context has changed
-    if (contextResult.primaryContext !== lastContext) {
-      lastContext = contextResult.primaryContext;
-      
-      // Simple message with just the context and confidence
-      chrome.runtime.sendMessage({
-        type: "CONTEXT_DETECTED",
-        context: contextResult.primaryContext,
-        confidence: contextResult.confidence,
-        url: pageData.url
-      });
-    }
+    chrome.runtime.sendMessage({
+      type: "CLASSIFY_PAGE",
+      pageData
+    });
   } catch (error) {
     console.error("Error detecting context:", error);
   }
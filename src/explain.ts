@@ -0,0 +1,278 @@
+// explain.ts - "Why is this page X?" view, opened from the popup and blocked.html
+import { CONTEXT_PATH_SEPARATOR, getContexts, getTopLevelContext } from "./api/contextsApi";
+import { ClassificationReport, ContextResult, PageData, PageFixture, SignalContribution } from "./types/index";
+
+// Human-readable names for the classifier's signals
+const SIGNAL_LABELS: Record<string, string> = {
+  text: "Page text",
+  keywords: "Text keywords (TF-IDF)",
+  domain: "Domain prior",
+  urlPath: "URL path patterns",
+  urlKeywords: "URL keywords",
+  title: "Page title",
+  description: "Meta description",
+  metaKeywords: "Meta keywords",
+  site: "Site signals",
+  domainBoost: "Domain boost",
+  feedback: "Learned feedback"
+};
+
+// Contexts shown as columns in the signal table
+const MAX_CONTEXT_COLUMNS = 5;
+const MAX_KEYWORD_ROWS = 25;
+
+const urlParams = new URLSearchParams(window.location.search);
+const tabIdParam = urlParams.get("tabId");
+const tabId = tabIdParam ? parseInt(tabIdParam, 10) : undefined;
+const pageUrl = urlParams.get("url") || undefined;
+
+document.addEventListener("DOMContentLoaded", async () => {
+  try {
+    const report: ClassificationReport | null = await chrome.runtime.sendMessage({
+      type: "GET_CLASSIFICATION_REPORT",
+      tabId,
+      url: pageUrl
+    });
+    if (!report) throw new Error("No report");
+
+    renderHeader(report);
+    renderDecision(report);
+    if (report.result?.explanation) {
+      renderSignals(report.result);
+      renderKeywords(report.result);
+    }
+    await renderFixtureExport(report);
+  } catch (error) {
+    console.error("Error loading classification report:", error);
+    setParagraphs(document.getElementById("decision")!, [
+      "Couldn't load the classification for this page."
+    ]);
+  }
+});
+
+function renderHeader(report: ClassificationReport): void {
+  const title = document.getElementById("explain-title")!;
+  const context = report.effectiveContext ?? report.result?.primaryContext;
+  title.textContent = context
+    ? `Why is this page ${context}?`
+    : "Why isn't this page in a context?";
+  document.getElementById("explain-url")!.textContent = report.url;
+}
+
+/**
+ * Summarize what decided the context: a sub-URL override, site signals, the stored domain mapping or the classifier
+ */
+function renderDecision(report: ClassificationReport): void {
+  const { result } = report;
+  const lines: string[] = [];
+
+  if (report.override) {
+    lines.push(`The sub-URL override for ${report.override.prefix} sets this page to ${report.override.context}. ` +
+      "It wins over the domain mapping and the classifier.");
+  }
+
+  if (!result) {
+    lines.push("This page hasn't been classified in this tab, so no signal breakdown is available. " +
+      "Pages can be blocked before they load when their domain already has a context.");
+  } else if (result.siteSource) {
+    lines.push(`Site-specific signals from ${result.siteSource} decided this page; the domain mapping isn't used for it.`);
+  } else if (result.uncertain && !report.mappedContext) {
+    lines.push(`The classifier wasn't confident enough to pick a context (top score ${formatScore(result.confidence)}), ` +
+      "so the page was left ungrouped.");
+  } else if (!result.subUrlOverride) {
+    const subContext = result.subContext ? `${CONTEXT_PATH_SEPARATOR}${result.subContext}` : "";
+    lines.push(`The classifier scored this page as ${result.primaryContext}${subContext} ` +
+      `(${formatScore(result.confidence)}${result.language ? `, language: ${result.language}` : ""}).`);
+  }
+
+  if (report.mappedContext && !result?.siteSource && !report.override) {
+    const source = report.mappingSource === "builtin"
+      ? "the built-in domain list"
+      : report.mappingSource === "list"
+        ? `the imported list "${report.mappingList}"`
+        : "an earlier classification or your correction";
+    lines.push(`${report.mappingKey ?? report.domain} is mapped to ${report.mappedContext} by ${source}. ` +
+      "Grouping and blocking use this mapping.");
+    const classified = result ? result.subContext ?? result.primaryContext : undefined;
+    if (result && !result.uncertain && report.effectiveContext === classified && classified !== report.mappedContext) {
+      lines.push(`The classifier narrowed it down to the sub-context ${classified}.`);
+    } else if (result && !result.uncertain && classified !== report.mappedContext) {
+      lines.push(`The mapping overrides the classifier's ${classified}.`);
+    }
+  }
+
+  const strongest = result ? strongestSignal(result) : undefined;
+  if (strongest) {
+    lines.push(`Strongest signal for ${result!.primaryContext}: ${strongest}.`);
+  }
+
+  if (report.blocked) {
+    lines.push(`${report.effectiveContext} isn't allowed in the current focus session, so this page is blocked.`);
+  } else if (report.allowedBy) {
+    lines.push(`${report.effectiveContext} isn't allowed in the current focus session, but the page also scores ` +
+      `highly for ${report.allowedBy}, an allowed context, so it isn't blocked.`);
+  }
+
+  const decision = document.getElementById("decision")!;
+  setParagraphs(decision, lines);
+  if (report.blocked) {
+    decision.lastElementChild?.classList.add("blocked");
+  }
+}
+
+/**
+ * Describe the signal that contributed most to the primary context
+ */
+function strongestSignal(result: ContextResult): string | undefined {
+  const signals = result.explanation?.signals || [];
+  let best: SignalContribution | undefined;
+  for (const signal of signals) {
+    if ((signal.scores[result.primaryContext] || 0) > (best?.scores[result.primaryContext] || 0)) {
+      best = signal;
+    }
+  }
+  if (!best) return undefined;
+
+  const total = result.features?.[result.primaryContext];
+  return `${signalLabel(best, result)} (+${formatScore(best.scores[result.primaryContext])}` +
+    `${total ? ` of ${formatScore(total)}` : ""})`;
+}
+
+/**
+ * Table of signals (rows) by context (columns)
+ */
+function renderSignals(result: ContextResult): void {
+  const signals = result.explanation!.signals;
+  const features = result.features || {};
+  const contexts = Object.keys(features)
+    .sort((a, b) => features[b] - features[a])
+    .slice(0, MAX_CONTEXT_COLUMNS);
+  if (contexts.length === 0) return;
+
+  const table = document.getElementById("signals-table") as HTMLTableElement;
+  const header = table.createTHead().insertRow();
+  appendCell(header, "Signal", "th");
+  contexts.forEach(context => appendCell(header, context, "th"));
+
+  // Strongest signal per context
+  const topSignal: Record<string, SignalContribution> = {};
+  for (const context of contexts) {
+    for (const signal of signals) {
+      if ((signal.scores[context] || 0) > (topSignal[context]?.scores[context] || 0)) {
+        topSignal[context] = signal;
+      }
+    }
+  }
+
+  const body = table.createTBody();
+  for (const signal of signals) {
+    const row = body.insertRow();
+    appendCell(row, `${signalLabel(signal, result)} ×${signal.weight}`);
+    for (const context of contexts) {
+      const cell = appendCell(row, signal.scores[context] ? formatScore(signal.scores[context]) : "–");
+      if (topSignal[context] === signal) cell.classList.add("top");
+    }
+  }
+
+  const total = body.insertRow();
+  total.className = "total";
+  appendCell(total, "Total");
+  contexts.forEach(context => appendCell(total, formatScore(features[context])));
+
+  document.getElementById("signals-section")!.hidden = false;
+}
+
+/**
+ * Table of the dictionary keywords that matched, most influential first
+ */
+function renderKeywords(result: ContextResult): void {
+  const matches = result.explanation!.keywordMatches.slice(0, MAX_KEYWORD_ROWS);
+  if (matches.length === 0) return;
+
+  const table = document.getElementById("keywords-table") as HTMLTableElement;
+  const header = table.createTHead().insertRow();
+  ["Keyword", "Context", "Weight", "Count", "IDF"].forEach(label => appendCell(header, label, "th"));
+
+  const body = table.createTBody();
+  for (const match of matches) {
+    const row = body.insertRow();
+    appendCell(row, match.term);
+    appendCell(row, match.context);
+    appendCell(row, match.weight.toFixed(2));
+    appendCell(row, String(match.count));
+    appendCell(row, match.idf.toFixed(2));
+  }
+
+  document.getElementById("keywords-section")!.hidden = false;
+}
+
+/**
+ * Offer to download the page as a labelled fixture for eval/, labelled with
+ * the context it ended up in unless the user picks another. The evaluation
+ * scores top-level contexts, so sub-contexts are labelled with their parent.
+ */
+async function renderFixtureExport(report: ClassificationReport): Promise<void> {
+  if (tabId == null) return;
+
+  const select = document.getElementById("fixture-label") as HTMLSelectElement;
+  const contexts = await getContexts();
+  for (const { name } of contexts.filter(c => !c.parent)) {
+    select.add(new Option(name, name));
+  }
+  if (report.effectiveContext) select.value = getTopLevelContext(report.effectiveContext, contexts);
+
+  const status = document.getElementById("fixture-status")!;
+  document.getElementById("export-fixture")!.addEventListener("click", async () => {
+    try {
+      const pageData: PageData | undefined = await chrome.tabs.sendMessage(tabId, { type: "GET_PAGE_DATA" });
+      if (!pageData) throw new Error("No page data");
+
+      const fixture: PageFixture = { label: select.value, pageData, exportedAt: Date.now() };
+      downloadJson(fixture, `${report.domain || "page"}-${Date.now()}.json`);
+      status.textContent = "Downloaded. Move the file into eval/fixtures to include it in the evaluation.";
+    } catch (error) {
+      console.error("Error exporting fixture:", error);
+      status.textContent = "Couldn't read the page. Open the page itself (not the blocked page) and try again.";
+    }
+  });
+
+  document.getElementById("fixture-section")!.hidden = false;
+}
+
+function downloadJson(data: unknown, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function signalLabel(signal: SignalContribution, result: ContextResult): string {
+  const label = SIGNAL_LABELS[signal.signal] || signal.signal;
+  if (signal.signal === "site" && result.siteSource) return `${label} (${result.siteSource})`;
+  if (signal.signal === "domainBoost" && result.explanation?.domainCategory) {
+    return `${label} (${result.explanation.domainCategory})`;
+  }
+  return label;
+}
+
+function appendCell(row: HTMLTableRowElement, text: string, tag: "td" | "th" = "td"): HTMLElement {
+  const cell = document.createElement(tag);
+  cell.textContent = text;
+  row.appendChild(cell);
+  return cell;
+}
+
+function setParagraphs(container: HTMLElement, lines: string[]): void {
+  container.innerHTML = "";
+  for (const line of lines) {
+    const p = document.createElement("p");
+    p.textContent = line;
+    container.appendChild(p);
+  }
+}
+
+function formatScore(score: number): string {
+  return score.toFixed(2);
+}
@@ -0,0 +1,33 @@
+/**
+ * Temporary allowances: a blocked domain let through for a few minutes of a
+ * session, paid for from the session's override budget. They're kept in the
+ * focus state, so they end with the session.
+ */
+import { FocusState, TemporaryAllowance } from "../types/index";
+import { normalizeHostname } from "./contextEngine/domainMatcher";
+
+// Lengths offered on the blocked page
+export const ALLOWANCE_MINUTES = [5, 10, 15];
+
+/**
+ * Allowances that haven't expired yet
+ */
+export function getActiveAllowances(focusState: FocusState, now = Date.now()): TemporaryAllowance[] {
+  return (focusState.allowances ?? []).filter(allowance => allowance.expiresAt > now);
+}
+
+/**
+ * Whether an allowed domain covers a hostname (the domain itself or a subdomain of it)
+ */
+export function allowanceCovers(domain: string, hostname: string): boolean {
+  const host = normalizeHostname(hostname);
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+/**
+ * The running allowance that lets a hostname through, if any
+ */
+export function findAllowance(focusState: FocusState, hostname: string, now = Date.now()): TemporaryAllowance | undefined {
+  if (!hostname) return undefined;
+  return getActiveAllowances(focusState, now).find(allowance => allowanceCovers(allowance.domain, hostname));
+}
@@ -0,0 +1,68 @@
+// Default keyword dictionaries with weights
+export const DEFAULT_CONTEXT_KEYWORDS: Record<string, Record<string, number>> = {
+  "Work": {
+    "project": 0.8, "deadline": 0.9, "meeting": 0.7, "task": 0.8, "client": 0.8, 
+    "report": 0.7, "presentation": 0.7, "office": 0.6, "business": 0.8, "email": 0.6,
+    "colleague": 0.7, "manager": 0.7, "workflow": 0.8, "productivity": 0.7, "professional": 0.7
+  },
+  "Learning": {
+  "course": 0.9, "lesson": 0.8, "tutorial": 0.9, "learn": 0.8, "study": 0.9,
+  "education": 0.7, "assignment": 0.9, "homework": 0.9, "university": 0.8, "college": 0.8,
+  "school": 0.7, "academy": 0.7, "lecture": 0.9, "professor": 0.8, "student": 0.7,
+  "quiz": 0.8, "exam": 0.9, "test": 0.7, "knowledge": 0.6, "textbook": 0.8,
+  "admissions": 0.9, "academics": 0.8, "majors": 0.8, "undergraduate": 0.9,
+  "graduate": 0.9, "faculty": 0.7, "syllabus": 0.8, "transcript": 0.7,
+  "campus": 0.6, "enroll": 0.9
+  },
+  "Entertainment": {
+    "movie": 0.9, "show": 0.7, "stream": 0.7, "watch": 0.6, "video": 0.7,
+    "game": 0.8, "play": 0.6, "fun": 0.7, "music": 0.8, "song": 0.8,
+    "entertainment": 0.9, "netflix": 0.9, "youtube": 0.8, "hulu": 0.9, "disney": 0.8,
+    "hbo": 0.9, "amazon": 0.5, "twitch": 0.9, "gaming": 0.9
+  },
+  "News": {
+    "news": 0.9, "article": 0.7, "report": 0.6, "breaking": 0.8, "headline": 0.9,
+    "journalist": 0.8, "media": 0.7, "press": 0.7, "update": 0.6, "current": 0.6,
+    "politics": 0.7, "election": 0.7, "government": 0.6, "president": 0.6, "minister": 0.6,
+    "cnn": 0.9, "bbc": 0.9, "nyt": 0.9, "reuters": 0.9, "associated": 0.7
+  },
+  "Shopping": {
+    "shop": 0.9, "buy": 0.8, "purchase": 0.8, "order": 0.7, "cart": 0.9,
+    "checkout": 0.9, "price": 0.8, "discount": 0.8, "product": 0.8, "item": 0.7,
+    "amazon": 0.8, "ebay": 0.9, "etsy": 0.9, "store": 0.8, "mall": 0.8,
+    "shipping": 0.8, "delivery": 0.7, "payment": 0.8, "credit": 0.7, "review": 0.6
+  },
+  "Social": {
+    "friend": 0.8, "message": 0.7, "chat": 0.8, "post": 0.7, "share": 0.7,
+    "social": 0.9, "network": 0.7, "facebook": 0.9, "twitter": 0.9, "instagram": 0.9,
+    "snapchat": 0.9, "tiktok": 0.9, "linkedin": 0.9, "reddit": 0.8, "forum": 0.7,
+    "comment": 0.7, "like": 0.6, "follow": 0.6, "connect": 0.7, "profile": 0.8
+  },
+  "Research": {
+    "research": 0.9, "study": 0.8, "analysis": 0.8, "data": 0.7, "information": 0.6,
+    "journal": 0.9, "article": 0.8, "paper": 0.7, "science": 0.8, "scientific": 0.8,
+    "academic": 0.9, "scholar": 0.9, "experiment": 0.8, "theory": 0.7, "hypothesis": 0.8,
+    "methodology": 0.8, "finding": 0.7, "conclude": 0.7, "reference": 0.7, "citation": 0.8
+  },
+  "Development": {
+    "code": 0.9, "programming": 0.9, "developer": 0.9, "software": 0.8, "github": 0.9,
+    "git": 0.8, "repository": 0.8, "commit": 0.8, "function": 0.7, "class": 0.7,
+    "method": 0.7, "variable": 0.7, "object": 0.7, "array": 0.7, "string": 0.7,
+    "stack": 0.8, "overflow": 0.8, "javascript": 0.8, "python": 0.8, "typescript": 0.8
+  },
+  "Docs": {
+    "documentation": 0.9, "docs": 0.9, "api reference": 0.9, "reference": 0.6, "manual": 0.8,
+    "parameters": 0.8, "returns": 0.7, "syntax": 0.8, "usage": 0.7, "example": 0.6,
+    "deprecated": 0.8, "changelog": 0.7, "specification": 0.7, "guide": 0.6, "readme": 0.8
+  },
+  "Music": {
+    "music": 0.9, "song": 0.9, "album": 0.9, "playlist": 0.9, "artist": 0.8,
+    "lyrics": 0.9, "band": 0.7, "concert": 0.8, "track": 0.6, "spotify": 0.9,
+    "soundcloud": 0.9, "bandcamp": 0.9, "listen": 0.7, "singer": 0.8, "genre": 0.6
+  },
+  "Video": {
+    "video": 0.8, "movie": 0.9, "film": 0.8, "trailer": 0.9, "episode": 0.9,
+    "series": 0.7, "season": 0.7, "watch": 0.6, "stream": 0.6, "netflix": 0.9,
+    "hulu": 0.9, "youtube": 0.8, "twitch": 0.8, "clip": 0.7, "subscribe": 0.6
+  }
+};
@@ -0,0 +1,98 @@
+import { getStorage, setStorage } from "../../api/storageApi";
+import { DocumentFrequencies } from "../../types/index";
+
+// Below this many documents the corpus is too small to trust, so every term gets the same IDF
+const MIN_DOCUMENTS = 20;
+const COLD_START_IDF = 1;
+
+// Cap on tracked terms to keep the stored table compact
+const MAX_TERMS = 5000;
+
+// URLs already counted, so reclassifying the same page doesn't inflate frequencies
+const MAX_COUNTED_URLS = 500;
+const countedUrls = new Set<string>();
+
+// Cache for document frequencies to avoid storage hits
+let frequenciesCache: DocumentFrequencies | null = null;
+
+// Setup storage change listener to invalidate cache
+chrome.storage.onChanged.addListener((changes) => {
+  if (changes.documentFrequencies) {
+    frequenciesCache = null;
+  }
+});
+
+/**
+ * Get document frequencies with caching
+ */
+async function getDocumentFrequencies(): Promise<DocumentFrequencies> {
+  if (frequenciesCache !== null) {
+    return frequenciesCache;
+  }
+
+  try {
+    const { documentFrequencies } = await getStorage(["documentFrequencies"]);
+    frequenciesCache = documentFrequencies || { documentCount: 0, frequencies: {} };
+  } catch (error) {
+    console.error("Error loading document frequencies:", error);
+    frequenciesCache = { documentCount: 0, frequencies: {} };
+  }
+  return frequenciesCache;
+}
+
+/**
+ * Count a classified page's terms towards the corpus
+ *
+ * @param url - Page URL, used to count each page once
+ * @param terms - Distinct terms that appear on the page
+ */
+export async function addDocument(url: string, terms: Iterable<string>): Promise<void> {
+  if (countedUrls.has(url)) return;
+  countedUrls.add(url);
+  if (countedUrls.size > MAX_COUNTED_URLS) {
+    countedUrls.delete(countedUrls.values().next().value as string);
+  }
+
+  const current = await getDocumentFrequencies();
+  const frequencies = { ...current.frequencies };
+  for (const term of new Set(terms)) {
+    frequencies[term] = (frequencies[term] || 0) + 1;
+  }
+
+  const updated: DocumentFrequencies = {
+    documentCount: current.documentCount + 1,
+    frequencies: pruneTerms(frequencies)
+  };
+  frequenciesCache = updated;
+  await setStorage({ documentFrequencies: updated });
+}
+
+/**
+ * Keep only the most frequent terms once the table grows past its limit
+ */
+function pruneTerms(frequencies: Record<string, number>): Record<string, number> {
+  const entries = Object.entries(frequencies);
+  if (entries.length <= MAX_TERMS) return frequencies;
+
+  return Object.fromEntries(
+    entries.sort((a, b) => b[1] - a[1]).slice(0, MAX_TERMS)
+  );
+}
+
+/**
+ * Get smoothed inverse document frequencies for the given terms.
+ *
+ * Terms found on nearly every page approach 0, rare terms grow with log(N).
+ */
+export async function getIdfWeights(terms: Iterable<string>): Promise<Record<string, number>> {
+  const { documentCount, frequencies } = await getDocumentFrequencies();
+  const weights: Record<string, number> = {};
+
+  for (const term of terms) {
+    weights[term] = documentCount < MIN_DOCUMENTS
+      ? COLD_START_IDF
+      : Math.log((documentCount + 1) / ((frequencies[term] || 0) + 1));
+  }
+
+  return weights;
+}
@@ -0,0 +1,83 @@
+/**
+ * Domain lookups against the public suffix list, so that "bbc.co.uk" is one
+ * site and "user.github.io" isn't part of github
+ */
+import { getDomain } from "tldts";
+
+/** Which level of the hierarchy a domain lookup matched at */
+export type DomainMatchLevel = "exact" | "parent" | "registrable" | "pattern";
+
+/** A domain map entry that matched a hostname */
+export interface DomainMatch<T> {
+  key: string;
+  value: T;
+  level: DomainMatchLevel;
+}
+
+/**
+ * Lowercase a hostname and drop a trailing dot
+ */
+export function normalizeHostname(hostname: string): string {
+  return hostname.trim().toLowerCase().replace(/\.$/, "");
+}
+
+/**
+ * Get the registrable domain of a hostname ("news.bbc.co.uk" → "bbc.co.uk").
+ *
+ * Private suffixes like github.io count, so "user.github.io" stays its own
+ * site. Hosts without one (localhost, IP addresses) are returned as-is.
+ */
+export function getRegistrableDomain(hostname: string): string {
+  const host = normalizeHostname(hostname);
+  return getDomain(host, { allowPrivateDomains: true }) || host;
+}
+
+/**
+ * Whether a domain map key is a pattern ("*.edu" matches every subdomain of edu)
+ */
+export function isDomainPattern(key: string): boolean {
+  return key.startsWith("*.");
+}
+
+/**
+ * Look a hostname up in a domain-keyed map.
+ *
+ * The most specific entry wins: the exact host, then its parent hosts down to
+ * the registrable domain, then "*." patterns from the longest suffix up.
+ */
+export function lookupDomain<T>(map: Record<string, T>, hostname: string): DomainMatch<T> | undefined {
+  const host = normalizeHostname(hostname);
+  if (!host) return undefined;
+
+  const registrable = getRegistrableDomain(host);
+  const labels = host.split(".");
+
+  for (let i = 0; i < labels.length; i++) {
+    const key = labels.slice(i).join(".");
+    if (Object.prototype.hasOwnProperty.call(map, key)) {
+      const level: DomainMatchLevel = i === 0 ? "exact" : key === registrable ? "registrable" : "parent";
+      return { key, value: map[key], level };
+    }
+    // Never walk above the registrable domain ("co.uk" isn't a site)
+    if (key === registrable) break;
+  }
+
+  for (let i = 1; i < labels.length; i++) {
+    const key = `*.${labels.slice(i).join(".")}`;
+    if (Object.prototype.hasOwnProperty.call(map, key)) {
+      return { key, value: map[key], level: "pattern" };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Get the key a hostname's entry should be written under: the host or parent
+ * entry that already decides it, otherwise the registrable domain
+ */
+export function getDomainKey(map: Record<string, unknown>, hostname: string): string {
+  const match = lookupDomain(map, hostname);
+  if (match && match.level !== "pattern") return match.key;
+  return getRegistrableDomain(hostname);
+}
@@ -1,12 +1,80 @@
-// This is a simplified version that can work without TensorFlow.js
-// In production, you'd use the Universal Sentence Encoder model
+import * as tf from "@tensorflow/tfjs";
+import * as use from "@tensorflow-models/universal-sentence-encoder";
+import { KEYWORD_PACKS } from "./keywordPacks";
+import { countTerms } from "./tokenizer";
+
+// Model files are bundled with the extension (see src/models/README.md)
+const MODEL_PATH = "models/universal-sentence-encoder/model.json";
+const VOCAB_PATH = "models/universal-sentence-encoder/vocab.json";
+
+// Only embed the start of the page - USE cost grows with input length
+const MAX_EMBED_CHARS = 2000;
+
+// Cosine similarities below the floor count as "unrelated"; the ceiling maps to a full score
+const SIMILARITY_FLOOR = 0.1;
+const SIMILARITY_CEILING = 0.6;
+
+// The bundled encoder is English-only; other languages use the keyword matcher
+const EMBEDDING_LANGUAGES = ["en"];
+
+/**
+ * Short descriptions of each context. Their averaged embeddings act as the
+ * prototype vectors that page text is compared against.
+ */
+const CONTEXT_PROTOTYPES: Record<string, string[]> = {
+  "Work": [
+    "Project deadlines, client meetings and status reports.",
+    "Team workflow, tasks and email with colleagues and managers.",
+    "Business documents, spreadsheets and presentations at the office."
+  ],
+  "Learning": [
+    "An online course lesson with lectures and a quiz.",
+    "Homework assignments, exams and study notes for students.",
+    "A step by step tutorial teaching a new skill."
+  ],
+  "Entertainment": [
+    "Watch movies, TV shows and streaming videos.",
+    "Play video games and watch gaming streams.",
+    "Listen to music, songs and playlists for fun."
+  ],
+  "News": [
+    "Breaking news headlines and current events.",
+    "Journalists report on politics, elections and the government.",
+    "Daily news coverage from around the world."
+  ],
+  "Shopping": [
+    "Buy products online and add items to your cart.",
+    "Prices, discounts, shipping and delivery for your order.",
+    "Customer reviews and product comparisons before checkout."
+  ],
+  "Social": [
+    "Chat and share posts with friends on social media.",
+    "Follow people, like posts and comment on a forum thread.",
+    "Messages, profiles and communities on a social network."
+  ],
+  "Research": [
+    "A peer reviewed scientific paper published in an academic journal.",
+    "Experiment methodology, data analysis and findings.",
+    "Scholarly articles, citations and references on a research topic."
+  ],
+  "Development": [
+    "Source code, functions and classes in a software repository.",
+    "Programming documentation for a JavaScript, TypeScript or Python API.",
+    "Debugging errors, commits and pull requests on GitHub or Stack Overflow."
+  ]
+};
 
 /**
- * Simple context classifier that doesn't rely on TensorFlow
- * This is a fallback for when TensorFlow.js can't be used
+ * Context classifier backed by the Universal Sentence Encoder.
+ *
+ * Page text is embedded and compared to per-context prototype embeddings.
+ * Non-English pages, or any page when the bundled model can't be loaded,
+ * are scored by a keyword matcher instead.
  */
 export class TextClassifier {
   private initialized: boolean = false;
+  private model: use.UniversalSentenceEncoder | null = null;
+  private prototypes: Record<string, tf.Tensor1D> = {};
   private categoryKeywords: Record<string, string[]> = {
     "Work": [
       "project deadline meeting task client report presentation office business email colleague manager workflow productivity professional",
@@ -33,49 +101,137 @@ export class TextClassifier {
       "code programming developer software github git repository commit function class method variable object array string stack overflow javascript python typescript",
     ]
   };
-  
+
   /**
-   * Initialize the classifier
+   * Initialize the classifier, loading the bundled model if it is available
    */
   async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    try {
+      await tf.ready();
+      this.model = await use.load({
+        modelUrl: chrome.runtime.getURL(MODEL_PATH),
+        vocabUrl: chrome.runtime.getURL(VOCAB_PATH)
+      });
+      await this.buildPrototypes();
+      console.log(`[Context] Sentence encoder loaded (backend: ${tf.getBackend()})`);
+    } catch (error) {
+      console.warn("[Context] Sentence encoder unavailable, using keyword fallback:", error);
+      this.disposePrototypes();
+      this.model = null;
+    }
+
     this.initialized = true;
   }
-  
+
+  /**
+   * Whether classification is using the embedding model
+   */
+  isModelLoaded(): boolean {
+    return this.model !== null;
+  }
+
   /**
    * Classify text into context categories
+   *
+   * @param text - Text to classify
+   * @param language - Detected language of the text
    */
-  async classify(text: string): Promise<Record<string, number>> {
+  async classify(text: string, language: string = "en"): Promise<Record<string, number>> {
     if (!this.initialized) {
       await this.initialize();
     }
-    
-    const textLower = text.toLowerCase();
+
+    if (this.model && text.trim() && EMBEDDING_LANGUAGES.includes(language)) {
+      try {
+        return await this.classifyWithEmbeddings(text);
+      } catch (error) {
+        console.error("[Context] Embedding classification failed, using keyword fallback:", error);
+      }
+    }
+
+    return this.classifyWithKeywords(text, language);
+  }
+
+  /**
+   * Compute the mean embedding of each context's prototype sentences
+   */
+  private async buildPrototypes(): Promise<void> {
+    if (!this.model) return;
+
+    for (const [context, sentences] of Object.entries(CONTEXT_PROTOTYPES)) {
+      const embeddings = await this.model.embed(sentences);
+      this.prototypes[context] = tf.tidy(() => normalize(embeddings.mean(0) as tf.Tensor1D));
+      embeddings.dispose();
+    }
+  }
+
+  private disposePrototypes(): void {
+    Object.values(this.prototypes).forEach(p => p.dispose());
+    this.prototypes = {};
+  }
+
+  /**
+   * Score text by cosine similarity to each context prototype
+   */
+  private async classifyWithEmbeddings(text: string): Promise<Record<string, number>> {
+    const input = text.replace(/\s+/g, " ").trim().substring(0, MAX_EMBED_CHARS);
+    const embedding = await this.model!.embed([input]);
+
+    const contexts = Object.keys(this.prototypes);
+    const similarities = tf.tidy(() => {
+      const vector = normalize(embedding.squeeze([0]) as tf.Tensor1D);
+      return tf.stack(contexts.map(ctx => tf.dot(vector, this.prototypes[ctx])));
+    });
+    const values = await similarities.data();
+    embedding.dispose();
+    similarities.dispose();
+
     const scores: Record<string, number> = {};
-    
-    // Simple scoring based on keyword presence
+    contexts.forEach((context, i) => {
+      const scaled = (values[i] - SIMILARITY_FLOOR) / (SIMILARITY_CEILING - SIMILARITY_FLOOR);
+      scores[context] = Math.min(1, Math.max(0, scaled));
+    });
+
+    return scores;
+  }
+
+  /**
+   * Fallback scoring based on whole-word keyword presence
+   */
+  private classifyWithKeywords(text: string, language: string): Record<string, number> {
+    const pack = KEYWORD_PACKS[language] || {};
+    const keywordsByCategory: Record<string, string[]> = {};
     for (const [category, keywordLists] of Object.entries(this.categoryKeywords)) {
-      let categoryScore = 0;
-      
-      for (const keywordList of keywordLists) {
-        const keywords = keywordList.split(" ");
-        let keywordsFound = 0;
-        
-        for (const keyword of keywords) {
-          if (textLower.includes(keyword)) {
-            keywordsFound++;
-            categoryScore += 1;
-          }
-        }
-        
-        // Normalize score
-        if (keywordsFound > 0) {
-          categoryScore = categoryScore / (keywords.length * 0.3);
+      keywordsByCategory[category] = keywordLists
+        .flatMap(list => list.split(" "))
+        .concat(Object.keys(pack[category] || {}));
+    }
+
+    const words = countTerms(text, language, Object.values(keywordsByCategory).flat());
+    const scores: Record<string, number> = {};
+
+    for (const [category, keywords] of Object.entries(keywordsByCategory)) {
+      let keywordsFound = 0;
+
+      for (const keyword of keywords) {
+        if (words[keyword]) {
+          keywordsFound++;
         }
       }
-      
-      scores[category] = Math.min(1, categoryScore);
+
+      // Normalize score
+      scores[category] = Math.min(1, keywordsFound / (keywords.length * 0.3));
     }
-    
+
     return scores;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Scale a vector to unit length
+ */
+function normalize(vector: tf.Tensor1D): tf.Tensor1D {
+  return tf.div(vector, tf.maximum(tf.norm(vector), 1e-8)) as tf.Tensor1D;
+}
@@ -0,0 +1,243 @@
+import { getStorage, setStorage } from "../../api/storageApi";
+import { FeedbackModel, PageData } from "../../types/index";
+import { extractDomain, extractPathKeywords } from "./urlAnalyzer";
+import { getDomainKey, lookupDomain } from "./domainMatcher";
+import { detectLanguage } from "./languageDetector";
+import { CJK_LANGUAGES, tokenize as tokenizeText } from "./tokenizer";
+
+// Feedback example used to update the learner
+export interface FeedbackExample {
+  url: string;
+  title?: string;
+  text?: string;
+}
+
+// Limits to keep the stored model compact
+const MAX_TOKENS_PER_CONTEXT = 2000;
+const MAX_DOMAINS = 1000;
+const MAX_TEXT_TOKENS = 300;
+
+// Naive Bayes evidence needed before its posterior is trusted fully
+const FULL_EVIDENCE_TOKENS = 5;
+
+// How strongly each learned signal moves the combined scores
+const DOMAIN_PRIOR_WEIGHT = 1.0;
+const TOKEN_MODEL_WEIGHT = 0.6;
+
+// Words too common to say anything about a context
+const STOPWORDS = new Set([
+  "the", "and", "for", "with", "that", "this", "from", "your", "you", "are",
+  "was", "were", "has", "have", "not", "but", "all", "can", "will", "www",
+  "com", "http", "https", "html", "php", "index"
+]);
+
+const EMPTY_MODEL: FeedbackModel = {
+  domainFeedback: {},
+  tokenCounts: {},
+  tokenTotals: {},
+  exampleCounts: {}
+};
+
+// Cache for the feedback model to avoid storage hits
+let modelCache: FeedbackModel | null = null;
+
+// Setup storage change listener to invalidate cache
+chrome.storage.onChanged.addListener((changes) => {
+  if (changes.feedbackModel) {
+    modelCache = null;
+  }
+});
+
+/**
+ * Get the feedback model with caching
+ */
+async function getFeedbackModel(): Promise<FeedbackModel> {
+  if (modelCache !== null) {
+    return modelCache;
+  }
+
+  try {
+    const { feedbackModel } = await getStorage(["feedbackModel"]);
+    modelCache = { ...structuredClone(EMPTY_MODEL), ...feedbackModel };
+  } catch (error) {
+    console.error("Error loading feedback model:", error);
+    modelCache = structuredClone(EMPTY_MODEL);
+  }
+  return modelCache;
+}
+
+/**
+ * Split text into lowercase tokens for the token model
+ */
+function tokenize(text: string, language: string): string[] {
+  // CJK words are often a single pair of characters
+  const minLength = CJK_LANGUAGES.includes(language) ? 2 : 3;
+  return tokenizeText(text, language)
+    .filter(word => word.length >= minLength && !STOPWORDS.has(word) && !/^\d+$/.test(word));
+}
+
+/**
+ * Collect the tokens that describe a page
+ */
+function exampleTokens(example: FeedbackExample): string[] {
+  const language = detectLanguage(`${example.title || ""} ${example.text || ""}`);
+  return [
+    ...tokenize(example.title || "", language),
+    ...extractPathKeywords(example.url),
+    ...tokenize(example.text || "", language).slice(0, MAX_TEXT_TOKENS)
+  ];
+}
+
+/**
+ * Record user feedback about a page's context.
+ *
+ * The actual context gains evidence for the page's domain and tokens; when the
+ * prediction was wrong, the predicted context loses evidence for the domain.
+ */
+export async function recordFeedback(
+  example: FeedbackExample,
+  actualContext: string,
+  predictedContext?: string
+): Promise<void> {
+  const model = structuredClone(await getFeedbackModel());
+  const hostname = extractDomain(example.url);
+
+  // Domain prior, learned per site unless a host already has its own entry
+  if (hostname) {
+    const domain = getDomainKey(model.domainFeedback, hostname);
+    const feedback = model.domainFeedback[domain] || {};
+    feedback[actualContext] = (feedback[actualContext] || 0) + 1;
+    if (predictedContext && predictedContext !== actualContext) {
+      feedback[predictedContext] = (feedback[predictedContext] || 0) - 1;
+    }
+    // Re-insert so the most recently corrected domains are kept when pruning
+    delete model.domainFeedback[domain];
+    model.domainFeedback[domain] = feedback;
+  }
+
+  // Token model
+  const counts = model.tokenCounts[actualContext] || {};
+  for (const token of exampleTokens(example)) {
+    counts[token] = (counts[token] || 0) + 1;
+    model.tokenTotals[actualContext] = (model.tokenTotals[actualContext] || 0) + 1;
+  }
+  model.tokenCounts[actualContext] = counts;
+  model.exampleCounts[actualContext] = (model.exampleCounts[actualContext] || 0) + 1;
+
+  pruneModel(model);
+  modelCache = model;
+  await setStorage({ feedbackModel: model });
+}
+
+/**
+ * Drop the least useful entries once the model grows past its limits
+ */
+function pruneModel(model: FeedbackModel): void {
+  const domains = Object.keys(model.domainFeedback);
+  for (const domain of domains.slice(0, Math.max(0, domains.length - MAX_DOMAINS))) {
+    delete model.domainFeedback[domain];
+  }
+
+  for (const [context, counts] of Object.entries(model.tokenCounts)) {
+    const entries = Object.entries(counts);
+    if (entries.length <= MAX_TOKENS_PER_CONTEXT) continue;
+
+    const kept = entries
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_TOKENS_PER_CONTEXT);
+    model.tokenCounts[context] = Object.fromEntries(kept);
+    model.tokenTotals[context] = kept.reduce((sum, [, count]) => sum + count, 0);
+  }
+}
+
+/**
+ * Per-domain prior learned from feedback, in the range (-1, 1)
+ */
+function scoreDomainPrior(model: FeedbackModel, domain: string): Record<string, number> {
+  const feedback = lookupDomain(model.domainFeedback, domain)?.value;
+  if (!feedback) return {};
+
+  const total = Object.values(feedback).reduce((sum, n) => sum + Math.abs(n), 0);
+  const scores: Record<string, number> = {};
+  for (const [context, net] of Object.entries(feedback)) {
+    // The +1 keeps a single correction from being treated as certain
+    scores[context] = net / (total + 1);
+  }
+  return scores;
+}
+
+/**
+ * Naive Bayes posterior over the contexts that have feedback, scaled by evidence
+ */
+function scoreTokens(model: FeedbackModel, tokens: string[]): Record<string, number> {
+  const contexts = Object.keys(model.exampleCounts).filter(ctx => model.exampleCounts[ctx] > 0);
+  if (contexts.length === 0 || tokens.length === 0) return {};
+
+  const vocabulary = new Set<string>();
+  contexts.forEach(ctx => Object.keys(model.tokenCounts[ctx] || {}).forEach(t => vocabulary.add(t)));
+
+  // Only tokens the model has seen carry evidence
+  const knownTokens = tokens.filter(token => vocabulary.has(token));
+  if (knownTokens.length === 0) return {};
+
+  const evidence = Math.min(1, knownTokens.length / FULL_EVIDENCE_TOKENS);
+
+  // With a single trained context there is nothing to compare against, so
+  // score by how much of the page overlaps with what was learned
+  if (contexts.length === 1) {
+    return { [contexts[0]]: (knownTokens.length / tokens.length) * evidence };
+  }
+
+  const totalExamples = contexts.reduce((sum, ctx) => sum + model.exampleCounts[ctx], 0);
+  const logPosteriors: Record<string, number> = {};
+
+  for (const context of contexts) {
+    const counts = model.tokenCounts[context] || {};
+    const denominator = (model.tokenTotals[context] || 0) + vocabulary.size;
+    let logP = Math.log(model.exampleCounts[context] / totalExamples);
+    for (const token of knownTokens) {
+      // Laplace smoothing
+      logP += Math.log(((counts[token] || 0) + 1) / denominator);
+    }
+    logPosteriors[context] = logP;
+  }
+
+  // Softmax to normalized posteriors, then keep only the lift above uniform
+  const maxLog = Math.max(...Object.values(logPosteriors));
+  const exps = Object.entries(logPosteriors).map(([ctx, logP]) => [ctx, Math.exp(logP - maxLog)] as const);
+  const sum = exps.reduce((acc, [, value]) => acc + value, 0);
+  const uniform = 1 / contexts.length;
+
+  const scores: Record<string, number> = {};
+  for (const [context, value] of exps) {
+    const lift = (value / sum - uniform) / (1 - uniform);
+    if (lift > 0) {
+      scores[context] = lift * evidence;
+    }
+  }
+  return scores;
+}
+
+/**
+ * Get learned score adjustments for a page from past feedback
+ */
+export async function getFeedbackScores(pageData: PageData): Promise<Record<string, number>> {
+  const model = await getFeedbackModel();
+  const domain = extractDomain(pageData.url);
+
+  const prior = scoreDomainPrior(model, domain);
+  const tokenScores = scoreTokens(model, exampleTokens({
+    url: pageData.url,
+    title: pageData.title,
+    text: pageData.fullText
+  }));
+
+  const scores: Record<string, number> = {};
+  for (const [context, score] of Object.entries(prior)) {
+    scores[context] = (scores[context] || 0) + score * DOMAIN_PRIOR_WEIGHT;
+  }
+  for (const [context, score] of Object.entries(tokenScores)) {
+    scores[context] = (scores[context] || 0) + score * TOKEN_MODEL_WEIGHT;
+  }
+  return scores;
+}
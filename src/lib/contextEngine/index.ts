@@ -1,8 +1,19 @@
-import { PageData, ContextResult } from "../../types/index";
-import { analyzeText } from "./textAnalyzer";
-import { analyzeUrl, getDomainCategory, extractDomain } from "./urlAnalyzer";
+import { PageData, ContextResult, ClassifierSettings, SiteSignals, SignalContribution, KeywordPreview, ContextDefinition } from "../../types/index";
+import { getClassifierSettings } from "../../api/classifierApi";
+import { DEFAULT_CONTEXTS, getContexts, getContextAliases, getParentContext } from "../../api/contextsApi";
+import { analyzeText, explainText, recordDocument } from "./textAnalyzer";
+import { analyzeUrlParts, extractDomain, getDomainCategory, UrlScores } from "./urlAnalyzer";
 import { TextClassifier } from "./embeddingClassifier";
 import { ContextTracker } from "./contextHistory";
+import { getFeedbackScores } from "./feedbackLearner";
+import { detectLanguage } from "./languageDetector";
+import { findSubUrlOverride } from "./subUrlOverrides";
+
+// Score given to the context a site extractor reports directly
+const SITE_CONTEXT_SCORE = 0.8;
+
+// Context reported when no category is a clear winner
+export const UNCERTAIN_CONTEXT = "Uncertain";
 
 // Singleton instances
 const textClassifier = new TextClassifier();
@@ -29,74 +40,171 @@ export async function initializeContextEngine(): Promise<void> {
 }
 
 /**
- * Extract metadata from the document
+ * Scores from the page's title and meta tags
  */
-export function extractMetadata(): { description: string, keywords: string[] } {
-  let description = "";
-  let keywords: string[] = [];
-  
-  // Get meta description
-  const descEl = document.querySelector('meta[name="description"]');
-  if (descEl) {
-    description = descEl.getAttribute('content') || "";
-  }
-  
-  // Get meta keywords
-  const keywordsEl = document.querySelector('meta[name="keywords"]');
-  if (keywordsEl) {
-    const keywordText = keywordsEl.getAttribute('content') || "";
-    keywords = keywordText.split(',').map(k => k.trim());
-  }
-  
-  return { description, keywords };
+interface MetadataScores {
+  title: Record<string, number>;
+  description: Record<string, number>;
+  keywords: Record<string, number>;
 }
 
 /**
- * Extract page data for context analysis
+ * Score the title, meta description and meta keywords separately
  */
-export function extractPageData(): PageData {
-  const metadata = extractMetadata();
-  const domain = extractDomain(window.location.href);
-  
+async function scoreMetadata(pageData: PageData, language: string): Promise<MetadataScores> {
+  const scoreIfPresent = async (text: string) =>
+    text.trim() ? textClassifier.classify(text, language) : {};
+
   return {
-    url: window.location.href,
-    title: document.title,
-    fullText: document.body.innerText || "",
-    metaDescription: metadata.description,
-    metaKeywords: metadata.keywords,
-    domainCategory: getDomainCategory(domain)
+    title: await scoreIfPresent(pageData.title || ""),
+    description: await scoreIfPresent(pageData.metaDescription || ""),
+    keywords: await scoreIfPresent((pageData.metaKeywords || []).join(", "))
   };
 }
 
+/**
+ * Score structured site signals: the site's own context plus its labels
+ */
+async function scoreSiteSignals(signals: SiteSignals | undefined, language: string): Promise<Record<string, number>> {
+  if (!signals) return {};
+
+  const scores: Record<string, number> = signals.labels.length > 0
+    ? await analyzeText(signals.labels.join(" "), language)
+    : {};
+  if (signals.context) {
+    scores[signals.context] = (scores[signals.context] || 0) + SITE_CONTEXT_SCORE;
+  }
+  return scores;
+}
+
+/**
+ * Add a signal's weighted scores into the combined scores and record its contribution
+ */
+function addWeighted(
+  combinedScores: Record<string, number>,
+  signals: SignalContribution[],
+  signal: string,
+  scores: Record<string, number>,
+  weight: number
+): void {
+  const contribution: Record<string, number> = {};
+  for (const [context, score] of Object.entries(scores)) {
+    contribution[context] = score * weight;
+    combinedScores[context] = (combinedScores[context] || 0) + (score * weight);
+  }
+  if (Object.keys(contribution).length > 0) {
+    signals.push({ signal, weight, scores: contribution });
+  }
+}
+
 /**
  * Combine scores with weights
+ *
+ * @returns The combined scores and each signal's weighted contribution to them
  */
 function combineScores(
   textScores: Record<string, number>,
-  urlScores: Record<string, number>,
+  keywordScores: Record<string, number>,
+  urlScores: UrlScores,
+  metadataScores: MetadataScores,
+  siteScores: Record<string, number>,
+  feedbackScores: Record<string, number>,
+  settings: ClassifierSettings,
   domainCategory?: string
-): Record<string, number> {
-  const combinedScores: Record<string, number> = { ...textScores };
+): { scores: Record<string, number>, signals: SignalContribution[] } {
+  const combinedScores: Record<string, number> = {};
+  const signals: SignalContribution[] = [];
+  
+  addWeighted(combinedScores, signals, "text", textScores, 1);
+  
+  // Add TF-IDF keyword scores of the page text
+  addWeighted(combinedScores, signals, "keywords", keywordScores, settings.tfidfWeight);
   
   // Add URL scores with lower weight
-  for (const [context, score] of Object.entries(urlScores)) {
-    combinedScores[context] = (combinedScores[context] || 0) + (score * 0.3);
-  }
+  addWeighted(combinedScores, signals, "domain", urlScores.domain, 0.3);
+  addWeighted(combinedScores, signals, "urlPath", urlScores.paths, 0.3);
+  addWeighted(combinedScores, signals, "urlKeywords", urlScores.keywords, 0.3);
+  
+  // Title and meta tags are short but high-signal, so they're weighted separately
+  addWeighted(combinedScores, signals, "title", metadataScores.title, settings.titleWeight);
+  addWeighted(combinedScores, signals, "description", metadataScores.description, settings.descriptionWeight);
+  addWeighted(combinedScores, signals, "metaKeywords", metadataScores.keywords, settings.keywordsWeight);
+  
+  // Site-specific signals (video category, subreddit, ...) are the most specific evidence
+  addWeighted(combinedScores, signals, "site", siteScores, 1);
   
   // Boost domain category if available
   if (domainCategory && combinedScores[domainCategory]) {
-    combinedScores[domainCategory] = combinedScores[domainCategory] * 1.3;
+    addWeighted(combinedScores, signals, "domainBoost", { [domainCategory]: combinedScores[domainCategory] }, 0.3);
   }
   
-  return combinedScores;
+  // Apply what was learned from user feedback last, so corrections win over the static signals
+  addWeighted(combinedScores, signals, "feedback", feedbackScores, 1);
+  
+  return { scores: combinedScores, signals };
+}
+
+/**
+ * Fold sub-context scores into their parents, so a page is first placed in a
+ * top-level context. A parent scores as high as its best sub-context.
+ */
+function foldSubContexts(scores: Record<string, number>, hierarchy: ContextDefinition[]): Record<string, number> {
+  const folded: Record<string, number> = {};
+  for (const [context, score] of Object.entries(scores)) {
+    const topLevel = getParentContext(context, hierarchy) ?? context;
+    folded[topLevel] = Math.max(folded[topLevel] ?? 0, score);
+  }
+  return folded;
+}
+
+/**
+ * Move scores reported under a renamed context's old name to its current name
+ */
+function renameContexts(scores: Record<string, number>, aliases: Record<string, string>): Record<string, number> {
+  const renamed: Record<string, number> = {};
+  for (const [context, score] of Object.entries(scores)) {
+    const name = aliases[context] ?? context;
+    renamed[name] = Math.max(renamed[name] ?? 0, score);
+  }
+  return renamed;
+}
+
+/**
+ * Pick the registered sub-context of a top-level context that the page fits best
+ */
+function pickSubContext(
+  parent: string,
+  scores: Record<string, number>,
+  contexts: ContextDefinition[],
+  settings: ClassifierSettings
+): string | undefined {
+  const [best] = contexts
+    .filter(c => c.parent === parent && (scores[c.name] ?? 0) >= settings.minConfidence)
+    .sort((a, b) => scores[b.name] - scores[a.name]);
+  return best?.name;
 }
 
 /**
  * Convert scores to final result
  */
-function formatResult(scores: Record<string, number>): ContextResult {
+function formatResult(
+  rawScores: Record<string, number>,
+  settings: ClassifierSettings,
+  contexts: ContextDefinition[],
+  aliases: Record<string, string>
+): ContextResult {
+  // Built-in signals may report contexts the user renamed or deleted; only registered ones are kept
+  const registered = new Set(contexts.map(c => c.name));
+  const keepRegistered = (s: Record<string, number>) =>
+    Object.fromEntries(Object.entries(s).filter(([context]) => registered.has(context)));
+
+  const renamedScores = renameContexts(rawScores, aliases);
+  const scores = keepRegistered(renamedScores);
+  // Built-in sub-contexts the user removed still fold into their default parent
+  const topLevelScores = keepRegistered(renameContexts(foldSubContexts(renamedScores, [...contexts, ...DEFAULT_CONTEXTS]), aliases));
+  
   // Sort contexts by score
-  const sortedContexts = Object.entries(scores)
+  const sortedContexts = Object.entries(topLevelScores)
     .filter(([_, score]) => score > 0)
     .sort((a, b) => b[1] - a[1]);
   
@@ -115,8 +223,25 @@ function formatResult(scores: Record<string, number>): ContextResult {
     confidence: score
   }));
   
+  // Too weak, or too close to the runner-up, to commit to a context
+  const runnerUpScore = sortedContexts[1]?.[1] ?? 0;
+  if (primaryScore < settings.minConfidence || primaryScore - runnerUpScore < settings.minMargin) {
+    return {
+      primaryContext: UNCERTAIN_CONTEXT,
+      confidence: primaryScore,
+      secondaryContexts,
+      features: scores,
+      uncertain: true,
+      candidates: sortedContexts.slice(0, 4).map(([context, score]) => ({
+        context,
+        confidence: score
+      }))
+    };
+  }
+  
   return {
     primaryContext,
+    subContext: pickSubContext(primaryContext, scores, contexts, settings),
     confidence: primaryScore,
     secondaryContexts,
     features: scores
@@ -132,26 +257,101 @@ export async function classifyPageContext(pageData: PageData): Promise<ContextRe
     await initializeContextEngine();
   }
   
+  const settings = await getClassifierSettings();
+  const contexts = await getContexts();
+  const aliases = await getContextAliases();
+  
+  // Keyword packs and tokenization follow the page language
+  const language = detectLanguage(`${pageData.title} ${pageData.fullText}`, pageData.language);
+  
   // Get scores from different sources
-  const textScores = await textClassifier.classify(pageData.fullText);
-  const urlScores = analyzeUrl(pageData.url);
+  const textScores = await textClassifier.classify(pageData.fullText, language);
+  const { scores: keywordScores, matches: keywordMatches } = await explainText(pageData.fullText, language);
+  // A context reported by a site extractor replaces the domain prior, which
+  // comes from the built-in domain list unless the page brought its own
+  const siteContext = pageData.siteSignals?.context;
+  const domainCategory = siteContext ?? pageData.domainCategory ?? getDomainCategory(extractDomain(pageData.url));
+  
+  const urlScores = await analyzeUrlParts(pageData.url, siteContext);
+  const metadataScores = await scoreMetadata(pageData, language);
+  const siteScores = await scoreSiteSignals(pageData.siteSignals, language);
+  const feedbackScores = await getFeedbackScores(pageData);
   
   // Combine scores
-  const combinedScores = combineScores(textScores, urlScores, pageData.domainCategory);
+  const { scores: combinedScores, signals } = combineScores(
+    textScores,
+    keywordScores,
+    urlScores,
+    metadataScores,
+    siteScores,
+    feedbackScores,
+    settings,
+    domainCategory
+  );
   
   // Format result
-  const result = formatResult(combinedScores);
+  const result = formatResult(combinedScores, settings, contexts, aliases);
+  result.language = language;
+  result.explanation = {
+    signals,
+    keywordMatches: keywordMatches.sort((a, b) => b.weight * b.idf - a.weight * a.idf),
+    domainCategory
+  };
   
-  // Enable context tracking
-  await contextTracker.addContext(
-    result.primaryContext, 
-    pageData.url, 
-    result.confidence
-  );
+  if (siteContext && (result.primaryContext === siteContext || result.subContext === siteContext)) {
+    result.siteSource = pageData.siteSignals?.source;
+  }
+  
+  // A sub-URL override set by the user decides the context outright
+  const override = await findSubUrlOverride(pageData.url);
+  if (override) {
+    const parent = getParentContext(override.context, contexts);
+    result.primaryContext = parent ?? override.context;
+    result.subContext = parent ? override.context : undefined;
+    result.confidence = 1;
+    result.subUrlOverride = override.prefix;
+    result.siteSource = undefined;
+    result.uncertain = undefined;
+    result.candidates = undefined;
+  }
+  
+  // Grow the corpus used for IDF weighting
+  await recordDocument(pageData.url, pageData.fullText, language);
+  
+  // Enable context tracking (uncertain pages would only add noise to switch detection)
+  if (!result.uncertain) {
+    await contextTracker.addContext(
+      result.primaryContext, 
+      pageData.url, 
+      result.confidence
+    );
+  }
   
   return result;
 }
 
+/**
+ * Score a page's text with the stored keyword dictionary and with a draft,
+ * without recording anything, so dictionary edits can be previewed
+ */
+export async function previewKeywords(
+  pageData: PageData,
+  dictionary: Record<string, Record<string, number>>
+): Promise<KeywordPreview> {
+  const language = detectLanguage(`${pageData.title} ${pageData.fullText}`, pageData.language);
+  const { scores: saved } = await explainText(pageData.fullText, language);
+  const { scores: draft, matches } = await explainText(pageData.fullText, language, dictionary);
+
+  return {
+    url: pageData.url,
+    title: pageData.title,
+    language,
+    saved,
+    draft,
+    matches: matches.sort((a, b) => b.weight * b.idf * b.count - a.weight * a.idf * a.count)
+  };
+}
+
 /**
  * Get context tracker instance
  */
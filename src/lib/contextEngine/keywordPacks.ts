@@ -0,0 +1,212 @@
+/**
+ * Per-language keyword packs for the built-in contexts.
+ *
+ * Selected by detected page language and merged on top of the (English)
+ * keyword dictionary, so brand names and loanwords keep matching.
+ */
+export const KEYWORD_PACKS: Record<string, Record<string, Record<string, number>>> = {
+  "de": {
+    "Work": {
+      "projekt": 0.8, "frist": 0.9, "besprechung": 0.7, "aufgabe": 0.8, "kunde": 0.8,
+      "bericht": 0.7, "präsentation": 0.7, "büro": 0.6, "geschäft": 0.8, "kollege": 0.7
+    },
+    "Learning": {
+      "kurs": 0.9, "lektion": 0.8, "anleitung": 0.8, "lernen": 0.8, "studium": 0.9,
+      "bildung": 0.7, "hausaufgaben": 0.9, "universität": 0.8, "schule": 0.7, "vorlesung": 0.9, "prüfung": 0.9
+    },
+    "Entertainment": {
+      "film": 0.9, "serie": 0.8, "spiel": 0.8, "spielen": 0.6, "musik": 0.8,
+      "lied": 0.8, "unterhaltung": 0.9, "ansehen": 0.6, "folge": 0.6
+    },
+    "News": {
+      "nachrichten": 0.9, "artikel": 0.7, "eilmeldung": 0.9, "schlagzeile": 0.9, "journalist": 0.8,
+      "presse": 0.7, "politik": 0.7, "wahl": 0.7, "regierung": 0.6, "minister": 0.6
+    },
+    "Shopping": {
+      "kaufen": 0.8, "bestellen": 0.8, "bestellung": 0.7, "warenkorb": 0.9, "kasse": 0.8,
+      "preis": 0.8, "rabatt": 0.8, "produkt": 0.8, "versand": 0.8, "lieferung": 0.7, "zahlung": 0.8
+    },
+    "Social": {
+      "freund": 0.8, "freunde": 0.8, "nachricht": 0.7, "teilen": 0.7, "beitrag": 0.7,
+      "forum": 0.7, "kommentar": 0.7, "folgen": 0.6, "profil": 0.8
+    },
+    "Research": {
+      "forschung": 0.9, "studie": 0.8, "analyse": 0.8, "daten": 0.7, "zeitschrift": 0.8,
+      "wissenschaft": 0.8, "wissenschaftlich": 0.8, "experiment": 0.8, "theorie": 0.7, "hypothese": 0.8, "quelle": 0.6
+    },
+    "Development": {
+      "programmierung": 0.9, "programmieren": 0.9, "entwickler": 0.9, "quellcode": 0.9, "funktion": 0.7,
+      "klasse": 0.6, "methode": 0.7, "variable": 0.7, "fehler": 0.6, "softwareentwicklung": 0.9
+    }
+  },
+  "es": {
+    "Work": {
+      "proyecto": 0.8, "plazo": 0.8, "reunión": 0.7, "tarea": 0.8, "cliente": 0.8,
+      "informe": 0.7, "presentación": 0.7, "oficina": 0.6, "negocio": 0.8, "empresa": 0.7
+    },
+    "Learning": {
+      "curso": 0.9, "lección": 0.8, "tutorial": 0.9, "aprender": 0.8, "estudiar": 0.9,
+      "educación": 0.7, "tarea": 0.6, "universidad": 0.8, "escuela": 0.7, "examen": 0.9, "profesor": 0.8
+    },
+    "Entertainment": {
+      "película": 0.9, "serie": 0.8, "juego": 0.8, "jugar": 0.6, "música": 0.8,
+      "canción": 0.8, "entretenimiento": 0.9, "ver": 0.5, "episodio": 0.7
+    },
+    "News": {
+      "noticias": 0.9, "noticia": 0.9, "artículo": 0.7, "última": 0.6, "titular": 0.9,
+      "periodista": 0.8, "prensa": 0.7, "política": 0.7, "elecciones": 0.7, "gobierno": 0.6
+    },
+    "Shopping": {
+      "comprar": 0.8, "compra": 0.8, "pedido": 0.7, "carrito": 0.9, "precio": 0.8,
+      "descuento": 0.8, "oferta": 0.7, "producto": 0.8, "tienda": 0.8, "envío": 0.8, "pago": 0.8
+    },
+    "Social": {
+      "amigo": 0.8, "amigos": 0.8, "mensaje": 0.7, "compartir": 0.7, "publicación": 0.7,
+      "foro": 0.7, "comentario": 0.7, "seguir": 0.6, "perfil": 0.8, "red": 0.5
+    },
+    "Research": {
+      "investigación": 0.9, "estudio": 0.8, "análisis": 0.8, "datos": 0.7, "revista": 0.7,
+      "ciencia": 0.8, "científico": 0.8, "académico": 0.9, "experimento": 0.8, "teoría": 0.7, "hipótesis": 0.8
+    },
+    "Development": {
+      "código": 0.9, "programación": 0.9, "desarrollador": 0.9, "desarrollo": 0.7, "función": 0.7,
+      "clase": 0.6, "método": 0.7, "variable": 0.7, "repositorio": 0.8, "error": 0.5
+    }
+  },
+  "fr": {
+    "Work": {
+      "projet": 0.8, "échéance": 0.9, "réunion": 0.7, "tâche": 0.8, "client": 0.8,
+      "rapport": 0.7, "présentation": 0.7, "bureau": 0.6, "entreprise": 0.7, "collègue": 0.7
+    },
+    "Learning": {
+      "cours": 0.9, "leçon": 0.8, "tutoriel": 0.9, "apprendre": 0.8, "étudier": 0.9,
+      "éducation": 0.7, "devoirs": 0.9, "université": 0.8, "école": 0.7, "examen": 0.9, "professeur": 0.8
+    },
+    "Entertainment": {
+      "film": 0.9, "série": 0.8, "jeu": 0.8, "jouer": 0.6, "musique": 0.8,
+      "chanson": 0.8, "divertissement": 0.9, "regarder": 0.6, "épisode": 0.7
+    },
+    "News": {
+      "actualités": 0.9, "actualité": 0.9, "article": 0.7, "info": 0.6, "journaliste": 0.8,
+      "presse": 0.7, "politique": 0.7, "élection": 0.7, "gouvernement": 0.6, "ministre": 0.6
+    },
+    "Shopping": {
+      "acheter": 0.8, "achat": 0.8, "commande": 0.7, "panier": 0.9, "prix": 0.8,
+      "promotion": 0.8, "produit": 0.8, "boutique": 0.8, "livraison": 0.8, "paiement": 0.8
+    },
+    "Social": {
+      "ami": 0.8, "amis": 0.8, "message": 0.7, "partager": 0.7, "publication": 0.7,
+      "forum": 0.7, "commentaire": 0.7, "suivre": 0.6, "profil": 0.8, "réseau": 0.7
+    },
+    "Research": {
+      "recherche": 0.9, "étude": 0.8, "analyse": 0.8, "données": 0.7, "revue": 0.7,
+      "science": 0.8, "scientifique": 0.8, "académique": 0.9, "expérience": 0.7, "théorie": 0.7, "hypothèse": 0.8
+    },
+    "Development": {
+      "code": 0.9, "programmation": 0.9, "développeur": 0.9, "développement": 0.7, "fonction": 0.7,
+      "classe": 0.6, "méthode": 0.7, "variable": 0.7, "dépôt": 0.7, "logiciel": 0.8
+    }
+  },
+  "pt": {
+    "Work": {
+      "projeto": 0.8, "prazo": 0.8, "reunião": 0.7, "tarefa": 0.8, "cliente": 0.8,
+      "relatório": 0.7, "apresentação": 0.7, "escritório": 0.6, "negócio": 0.8, "empresa": 0.7
+    },
+    "Learning": {
+      "curso": 0.9, "aula": 0.8, "tutorial": 0.9, "aprender": 0.8, "estudar": 0.9,
+      "educação": 0.7, "universidade": 0.8, "escola": 0.7, "exame": 0.9, "professor": 0.8
+    },
+    "Entertainment": {
+      "filme": 0.9, "série": 0.8, "jogo": 0.8, "jogar": 0.6, "música": 0.8,
+      "canção": 0.8, "entretenimento": 0.9, "assistir": 0.6, "episódio": 0.7
+    },
+    "News": {
+      "notícias": 0.9, "notícia": 0.9, "artigo": 0.7, "manchete": 0.9, "jornalista": 0.8,
+      "imprensa": 0.7, "política": 0.7, "eleição": 0.7, "governo": 0.6, "ministro": 0.6
+    },
+    "Shopping": {
+      "comprar": 0.8, "compra": 0.8, "pedido": 0.7, "carrinho": 0.9, "preço": 0.8,
+      "desconto": 0.8, "oferta": 0.7, "produto": 0.8, "loja": 0.8, "frete": 0.8, "pagamento": 0.8
+    },
+    "Social": {
+      "amigo": 0.8, "amigos": 0.8, "mensagem": 0.7, "compartilhar": 0.7, "publicação": 0.7,
+      "fórum": 0.7, "comentário": 0.7, "seguir": 0.6, "perfil": 0.8, "rede": 0.5
+    },
+    "Research": {
+      "pesquisa": 0.9, "estudo": 0.8, "análise": 0.8, "dados": 0.7, "revista": 0.7,
+      "ciência": 0.8, "científico": 0.8, "acadêmico": 0.9, "experimento": 0.8, "teoria": 0.7, "hipótese": 0.8
+    },
+    "Development": {
+      "código": 0.9, "programação": 0.9, "desenvolvedor": 0.9, "desenvolvimento": 0.7, "função": 0.7,
+      "classe": 0.6, "método": 0.7, "variável": 0.7, "repositório": 0.8, "erro": 0.5
+    }
+  },
+  "ja": {
+    "Work": {
+      "プロジェクト": 0.8, "締め切り": 0.9, "会議": 0.7, "タスク": 0.8, "顧客": 0.8,
+      "報告書": 0.7, "プレゼン": 0.7, "業務": 0.8, "ビジネス": 0.8, "上司": 0.7
+    },
+    "Learning": {
+      "講座": 0.9, "授業": 0.8, "チュートリアル": 0.9, "学習": 0.8, "勉強": 0.9,
+      "教育": 0.7, "宿題": 0.9, "大学": 0.8, "学校": 0.7, "試験": 0.9, "入門": 0.8
+    },
+    "Entertainment": {
+      "映画": 0.9, "ドラマ": 0.8, "ゲーム": 0.8, "音楽": 0.8, "動画": 0.7,
+      "アニメ": 0.9, "配信": 0.7, "エンタメ": 0.9, "漫画": 0.8
+    },
+    "News": {
+      "ニュース": 0.9, "記事": 0.7, "速報": 0.9, "報道": 0.8, "記者": 0.8,
+      "政治": 0.7, "選挙": 0.7, "政府": 0.6, "首相": 0.6, "新聞": 0.8
+    },
+    "Shopping": {
+      "購入": 0.8, "注文": 0.7, "カート": 0.9, "価格": 0.8, "割引": 0.8,
+      "セール": 0.8, "商品": 0.8, "通販": 0.9, "送料": 0.8, "配送": 0.7, "支払い": 0.8
+    },
+    "Social": {
+      "友達": 0.8, "メッセージ": 0.7, "チャット": 0.8, "投稿": 0.7, "シェア": 0.7,
+      "掲示板": 0.7, "コメント": 0.7, "フォロー": 0.6, "プロフィール": 0.8
+    },
+    "Research": {
+      "研究": 0.9, "分析": 0.8, "データ": 0.7, "論文": 0.9, "科学": 0.8,
+      "学術": 0.9, "実験": 0.8, "理論": 0.7, "仮説": 0.8, "引用": 0.8
+    },
+    "Development": {
+      "プログラミング": 0.9, "開発者": 0.9, "ソースコード": 0.9, "コード": 0.8, "関数": 0.7,
+      "クラス": 0.6, "変数": 0.7, "リポジトリ": 0.8, "エラー": 0.5, "実装": 0.7
+    }
+  },
+  "zh": {
+    "Work": {
+      "项目": 0.8, "截止": 0.9, "会议": 0.7, "任务": 0.8, "客户": 0.8,
+      "报告": 0.7, "演示": 0.7, "办公": 0.6, "商务": 0.8, "同事": 0.7
+    },
+    "Learning": {
+      "课程": 0.9, "课堂": 0.8, "教程": 0.9, "学习": 0.8, "教育": 0.7,
+      "作业": 0.9, "大学": 0.8, "学校": 0.7, "考试": 0.9, "老师": 0.8, "入门": 0.8
+    },
+    "Entertainment": {
+      "电影": 0.9, "电视剧": 0.8, "游戏": 0.8, "音乐": 0.8, "视频": 0.7,
+      "动漫": 0.9, "直播": 0.7, "娱乐": 0.9, "综艺": 0.8
+    },
+    "News": {
+      "新闻": 0.9, "文章": 0.6, "快讯": 0.9, "报道": 0.8, "记者": 0.8,
+      "政治": 0.7, "选举": 0.7, "政府": 0.6, "头条": 0.9, "时事": 0.8
+    },
+    "Shopping": {
+      "购买": 0.8, "订单": 0.7, "购物车": 0.9, "价格": 0.8, "折扣": 0.8,
+      "优惠": 0.8, "商品": 0.8, "商城": 0.9, "包邮": 0.8, "配送": 0.7, "支付": 0.8
+    },
+    "Social": {
+      "好友": 0.8, "消息": 0.7, "聊天": 0.8, "帖子": 0.7, "分享": 0.7,
+      "论坛": 0.7, "评论": 0.7, "关注": 0.6, "社交": 0.9, "个人主页": 0.8
+    },
+    "Research": {
+      "研究": 0.9, "分析": 0.8, "数据": 0.7, "论文": 0.9, "期刊": 0.9,
+      "科学": 0.8, "学术": 0.9, "实验": 0.8, "理论": 0.7, "假设": 0.8, "引用": 0.8
+    },
+    "Development": {
+      "编程": 0.9, "开发者": 0.9, "源代码": 0.9, "代码": 0.8, "函数": 0.7,
+      "变量": 0.7, "仓库": 0.6, "报错": 0.6, "程序员": 0.9, "开发": 0.7
+    }
+  }
+};
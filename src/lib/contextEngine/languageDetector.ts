@@ -0,0 +1,69 @@
+// Most frequent function words of each supported Latin-script language
+const STOPWORD_PROFILES: Record<string, string[]> = {
+  en: ["the", "and", "of", "to", "in", "is", "that", "for", "it", "with", "as", "was", "on", "are", "you", "this", "be", "at", "by", "not"],
+  de: ["der", "die", "und", "das", "ist", "nicht", "ein", "eine", "zu", "den", "mit", "sich", "des", "auf", "für", "im", "dem", "von", "auch", "wird"],
+  es: ["el", "la", "de", "que", "y", "en", "los", "las", "un", "una", "por", "con", "para", "es", "del", "se", "no", "al", "lo", "como"],
+  fr: ["le", "la", "les", "de", "des", "et", "est", "un", "une", "du", "en", "que", "pour", "dans", "pas", "qui", "sur", "au", "avec", "ce"],
+  pt: ["o", "a", "os", "as", "de", "que", "e", "do", "da", "em", "um", "uma", "para", "com", "não", "no", "na", "por", "se", "dos"],
+  it: ["il", "la", "di", "che", "e", "un", "una", "per", "con", "non", "del", "della", "sono", "è", "lo", "gli", "le", "nel", "da", "anche"]
+};
+
+const DEFAULT_LANGUAGE = "en";
+
+// Enough characters/words to trust the text over the page's declared language
+const MIN_SCRIPT_CHARS = 20;
+const MIN_STOPWORD_HITS = 3;
+
+// Only look at the start of the page
+const SAMPLE_LENGTH = 3000;
+
+/**
+ * Normalize a declared language like "de-AT" to its primary subtag
+ */
+function primaryLanguage(lang?: string): string | undefined {
+  const primary = lang?.trim().toLowerCase().split(/[-_]/)[0];
+  return primary || undefined;
+}
+
+/**
+ * Detect the language of page text.
+ *
+ * Scripts (kana, hangul, han, cyrillic) identify CJK and Russian text;
+ * Latin-script languages are told apart by their most common function words.
+ *
+ * @param text - Page text to inspect
+ * @param declaredLanguage - The page's `<html lang>`, used when the text is inconclusive
+ * @returns A primary language subtag such as "en", "de" or "ja"
+ */
+export function detectLanguage(text: string, declaredLanguage?: string): string {
+  const sample = text.substring(0, SAMPLE_LENGTH);
+  const declared = primaryLanguage(declaredLanguage);
+
+  const count = (pattern: RegExp) => (sample.match(pattern) || []).length;
+  const kana = count(/[぀-ヿ]/g);
+  const hangul = count(/[가-힯]/g);
+  const han = count(/[㐀-䶿一-鿿]/g);
+  const cyrillic = count(/[Ѐ-ӿ]/g);
+
+  if (kana + han + hangul + cyrillic >= MIN_SCRIPT_CHARS) {
+    if (kana > 0 && kana >= hangul) return "ja";
+    if (hangul > han) return "ko";
+    if (han >= cyrillic) return declared === "ja" ? "ja" : "zh";
+    return "ru";
+  }
+
+  const words = sample.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  let bestLanguage = "";
+  let bestHits = 0;
+  for (const [language, stopwords] of Object.entries(STOPWORD_PROFILES)) {
+    const profile = new Set(stopwords);
+    const hits = words.filter(word => profile.has(word)).length;
+    if (hits > bestHits) {
+      bestLanguage = language;
+      bestHits = hits;
+    }
+  }
+
+  if (bestHits >= MIN_STOPWORD_HITS) return bestLanguage;
+  return declared || DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,209 @@
+import { SiteSignals } from "../../types/index";
+
+/**
+ * Reads structured signals from a specific site's pages
+ */
+export interface SiteExtractor {
+  name: string;
+  matches(url: URL): boolean;
+  extract(doc: Document, url: URL): SiteSignals | undefined;
+}
+
+// YouTube video categories (schema.org "genre") → context
+const YOUTUBE_CATEGORIES: Record<string, string> = {
+  "Education": "Learning",
+  "Howto & Style": "Learning",
+  "Science & Technology": "Development",
+  "News & Politics": "News",
+  "Nonprofits & Activism": "News",
+  "People & Blogs": "Social",
+  "Gaming": "Entertainment",
+  "Music": "Entertainment",
+  "Film & Animation": "Entertainment",
+  "Comedy": "Entertainment",
+  "Entertainment": "Entertainment",
+  "Sports": "Entertainment",
+  "Travel & Events": "Entertainment",
+  "Autos & Vehicles": "Entertainment",
+  "Pets & Animals": "Entertainment"
+};
+
+// Well-known subreddits → context
+const SUBREDDIT_CONTEXTS: Record<string, string> = {
+  "programming": "Development",
+  "learnprogramming": "Development",
+  "webdev": "Development",
+  "javascript": "Development",
+  "typescript": "Development",
+  "python": "Development",
+  "rust": "Development",
+  "golang": "Development",
+  "java": "Development",
+  "cpp": "Development",
+  "csharp": "Development",
+  "reactjs": "Development",
+  "node": "Development",
+  "devops": "Development",
+  "sysadmin": "Development",
+  "experienceddevs": "Development",
+  "cscareerquestions": "Work",
+  "science": "Research",
+  "askscience": "Research",
+  "machinelearning": "Research",
+  "askhistorians": "Learning",
+  "explainlikeimfive": "Learning",
+  "learnmath": "Learning",
+  "news": "News",
+  "worldnews": "News",
+  "politics": "News",
+  "technology": "News",
+  "buildapcsales": "Shopping",
+  "deals": "Shopping",
+  "gaming": "Entertainment",
+  "movies": "Entertainment",
+  "music": "Entertainment",
+  "videos": "Entertainment",
+  "funny": "Entertainment",
+  "memes": "Entertainment",
+  "aww": "Entertainment"
+};
+
+function metaContent(doc: Document, selector: string): string {
+  return doc.querySelector(selector)?.getAttribute("content")?.trim() || "";
+}
+
+function textOf(elements: NodeListOf<Element>): string[] {
+  return Array.from(elements)
+    .map(el => el.textContent?.trim() || "")
+    .filter(Boolean);
+}
+
+/**
+ * Split identifiers like "LearnProgramming" or "machine_learning" into words
+ */
+function splitIdentifier(name: string): string[] {
+  return name
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.toLowerCase());
+}
+
+const youtubeExtractor: SiteExtractor = {
+  name: "youtube",
+  matches: (url) => /(^|\.)youtube\.com$/.test(url.hostname) && url.pathname === "/watch",
+  extract: (doc, url) => {
+    // The microformat isn't updated on in-app navigation, so it may still describe the previous video
+    const videoId = metaContent(doc, 'meta[itemprop="videoId"]') || metaContent(doc, 'meta[itemprop="identifier"]');
+    if (!videoId || videoId !== url.searchParams.get("v")) return undefined;
+
+    const category = metaContent(doc, 'meta[itemprop="genre"]');
+    const channel = doc.querySelector('span[itemprop="author"] link[itemprop="name"]')
+      ?.getAttribute("content")?.trim() || "";
+    const keywords = metaContent(doc, 'meta[name="keywords"]')
+      .split(",").map(k => k.trim()).filter(Boolean);
+
+    if (!category && !channel && keywords.length === 0) return undefined;
+
+    return {
+      source: "youtube",
+      context: YOUTUBE_CATEGORIES[category],
+      labels: [category, channel, ...keywords].filter(Boolean)
+    };
+  }
+};
+
+const redditExtractor: SiteExtractor = {
+  name: "reddit",
+  matches: (url) => /(^|\.)reddit\.com$/.test(url.hostname) && /^\/r\/[^/]+/i.test(url.pathname),
+  extract: (_doc, url) => {
+    const subreddit = url.pathname.split("/")[2] || "";
+    if (!subreddit) return undefined;
+
+    return {
+      source: "reddit",
+      context: SUBREDDIT_CONTEXTS[subreddit.toLowerCase()],
+      labels: [`r/${subreddit}`, ...splitIdentifier(subreddit)]
+    };
+  }
+};
+
+const githubExtractor: SiteExtractor = {
+  name: "github",
+  matches: (url) => url.hostname === "github.com",
+  extract: (doc, url) => {
+    const [first, second] = url.pathname.split("/").filter(Boolean);
+
+    if (first === "marketplace") {
+      return { source: "github", context: "Shopping", labels: ["marketplace"] };
+    }
+
+    // owner/repo pages (GitHub reserves top-level names like /settings or /explore)
+    const isRepository = !!second && !!doc.querySelector('meta[name="octolytics-dimension-repository_id"]');
+    if (!isRepository) return undefined;
+
+    return {
+      source: "github",
+      context: "Development",
+      labels: ["repository", ...textOf(doc.querySelectorAll("a.topic-tag"))]
+    };
+  }
+};
+
+const mediumExtractor: SiteExtractor = {
+  name: "medium",
+  matches: (url) => /(^|\.)medium\.com$/.test(url.hostname),
+  extract: (doc) => {
+    const tags = [
+      ...Array.from(doc.querySelectorAll('meta[property="article:tag"]'))
+        .map(el => el.getAttribute("content")?.trim() || ""),
+      ...textOf(doc.querySelectorAll('a[href*="/tag/"]'))
+    ].filter(Boolean);
+    const publication = metaContent(doc, 'meta[property="og:site_name"]');
+
+    if (tags.length === 0) return undefined;
+
+    return {
+      source: "medium",
+      labels: [...new Set(tags.map(t => t.toLowerCase()))].concat(publication ? [publication] : [])
+    };
+  }
+};
+
+// Registered extractors, checked in order
+const SITE_EXTRACTORS: SiteExtractor[] = [
+  youtubeExtractor,
+  redditExtractor,
+  githubExtractor,
+  mediumExtractor
+];
+
+/**
+ * Register an additional site extractor (checked before the built-in ones)
+ */
+export function registerSiteExtractor(extractor: SiteExtractor): void {
+  SITE_EXTRACTORS.unshift(extractor);
+}
+
+/**
+ * Run the first matching site extractor against a document
+ */
+export function extractSiteSignals(doc: Document, pageUrl: string): SiteSignals | undefined {
+  let url: URL;
+  try {
+    url = new URL(pageUrl);
+  } catch {
+    return undefined;
+  }
+
+  for (const extractor of SITE_EXTRACTORS) {
+    if (!extractor.matches(url)) continue;
+    try {
+      return extractor.extract(doc, url);
+    } catch (error) {
+      console.error(`[Context] Site extractor "${extractor.name}" failed:`, error);
+      return undefined;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,98 @@
+import { getStorage } from "../../api/storageApi";
+
+/** A sub-URL override that matched a URL */
+export interface SubUrlOverrideMatch {
+  prefix: string;
+  context: string;
+}
+
+// Cache for sub-URL overrides to avoid storage hits
+let overridesCache: Record<string, string> | null = null;
+
+// Setup storage change listener to invalidate cache
+chrome.storage.onChanged.addListener((changes) => {
+  if (changes.subUrlOverrides) {
+    overridesCache = null;
+  }
+});
+
+/**
+ * Get sub-URL overrides (URL prefix → context) with caching
+ */
+export async function getSubUrlOverrides(): Promise<Record<string, string>> {
+  if (overridesCache !== null) {
+    return overridesCache;
+  }
+
+  try {
+    const { subUrlOverrides } = await getStorage(["subUrlOverrides"]);
+    overridesCache = subUrlOverrides || {};
+  } catch (error) {
+    console.error("Error loading sub-URL overrides:", error);
+    overridesCache = {};
+  }
+  return overridesCache;
+}
+
+/**
+ * Normalize a URL or override prefix to "host/path" form: no scheme, no
+ * "www.", lowercase host, no fragment
+ */
+export function normalizeOverridePrefix(url: string): string {
+  const withoutScheme = url.trim().replace(/^[a-z][a-z0-9+.-]*:\/\//i, "").split("#")[0];
+  const slash = withoutScheme.search(/[/?]/);
+  const host = (slash === -1 ? withoutScheme : withoutScheme.substring(0, slash))
+    .toLowerCase()
+    .replace(/^www\./, "");
+  const rest = slash === -1 ? "" : withoutScheme.substring(slash);
+  return host + rest;
+}
+
+/**
+ * Whether a normalized URL falls under a normalized prefix.
+ *
+ * Subdomains of the prefix's host match, and a path prefix only matches
+ * whole segments ("youtube.com/@mitocw" doesn't match "youtube.com/@mitocwfan").
+ */
+function matchesPrefix(url: string, prefix: string): boolean {
+  const prefixHost = prefix.split(/[/?]/)[0];
+  const urlHost = url.split(/[/?]/)[0];
+  if (urlHost !== prefixHost && !urlHost.endsWith(`.${prefixHost}`)) return false;
+
+  const urlRest = url.substring(urlHost.length).toLowerCase();
+  const prefixRest = prefix.substring(prefixHost.length).toLowerCase();
+  if (!urlRest.startsWith(prefixRest)) return false;
+
+  const next = urlRest.charAt(prefixRest.length);
+  return prefixRest === "" || /[/?]$/.test(prefixRest) || next === "" || next === "/" || next === "?";
+}
+
+/**
+ * Find the override for a URL; when several prefixes match, the longest wins
+ */
+export function matchSubUrlOverride(
+  url: string,
+  overrides: Record<string, string>
+): SubUrlOverrideMatch | undefined {
+  const normalizedUrl = normalizeOverridePrefix(url);
+  let best: SubUrlOverrideMatch | undefined;
+  let bestLength = -1;
+
+  for (const [prefix, context] of Object.entries(overrides)) {
+    const normalizedPrefix = normalizeOverridePrefix(prefix);
+    if (!normalizedPrefix || normalizedPrefix.length <= bestLength) continue;
+    if (matchesPrefix(normalizedUrl, normalizedPrefix)) {
+      best = { prefix, context };
+      bestLength = normalizedPrefix.length;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Find the stored override for a URL
+ */
+export async function findSubUrlOverride(url: string): Promise<SubUrlOverrideMatch | undefined> {
+  return matchSubUrlOverride(url, await getSubUrlOverrides());
+}
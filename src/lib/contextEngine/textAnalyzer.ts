@@ -1,58 +1,12 @@
 import { StorageData } from "../../api/storageApi";
+import { KeywordMatch } from "../../types/index";
+import { addDocument, getIdfWeights } from "./documentFrequency";
+import { KEYWORD_PACKS } from "./keywordPacks";
+import { countTerms } from "./tokenizer";
+import { DEFAULT_CONTEXT_KEYWORDS } from "./defaultKeywords";
 
-// Default keyword dictionaries with weights
-const DEFAULT_CONTEXT_KEYWORDS: Record<string, Record<string, number>> = {
-  "Work": {
-    "project": 0.8, "deadline": 0.9, "meeting": 0.7, "task": 0.8, "client": 0.8, 
-    "report": 0.7, "presentation": 0.7, "office": 0.6, "business": 0.8, "email": 0.6,
-    "colleague": 0.7, "manager": 0.7, "workflow": 0.8, "productivity": 0.7, "professional": 0.7
-  },
-  "Learning": {
-  "course": 0.9, "lesson": 0.8, "tutorial": 0.9, "learn": 0.8, "study": 0.9,
-  "education": 0.7, "assignment": 0.9, "homework": 0.9, "university": 0.8, "college": 0.8,
-  "school": 0.7, "academy": 0.7, "lecture": 0.9, "professor": 0.8, "student": 0.7,
-  "quiz": 0.8, "exam": 0.9, "test": 0.7, "knowledge": 0.6, "textbook": 0.8,
-  "admissions": 0.9, "academics": 0.8, "majors": 0.8, "undergraduate": 0.9,
-  "graduate": 0.9, "faculty": 0.7, "syllabus": 0.8, "transcript": 0.7,
-  "campus": 0.6, "enroll": 0.9
-  },
-  "Entertainment": {
-    "movie": 0.9, "show": 0.7, "stream": 0.7, "watch": 0.6, "video": 0.7,
-    "game": 0.8, "play": 0.6, "fun": 0.7, "music": 0.8, "song": 0.8,
-    "entertainment": 0.9, "netflix": 0.9, "youtube": 0.8, "hulu": 0.9, "disney": 0.8,
-    "hbo": 0.9, "amazon": 0.5, "twitch": 0.9, "gaming": 0.9
-  },
-  "News": {
-    "news": 0.9, "article": 0.7, "report": 0.6, "breaking": 0.8, "headline": 0.9,
-    "journalist": 0.8, "media": 0.7, "press": 0.7, "update": 0.6, "current": 0.6,
-    "politics": 0.7, "election": 0.7, "government": 0.6, "president": 0.6, "minister": 0.6,
-    "cnn": 0.9, "bbc": 0.9, "nyt": 0.9, "reuters": 0.9, "associated": 0.7
-  },
-  "Shopping": {
-    "shop": 0.9, "buy": 0.8, "purchase": 0.8, "order": 0.7, "cart": 0.9,
-    "checkout": 0.9, "price": 0.8, "discount": 0.8, "product": 0.8, "item": 0.7,
-    "amazon": 0.8, "ebay": 0.9, "etsy": 0.9, "store": 0.8, "mall": 0.8,
-    "shipping": 0.8, "delivery": 0.7, "payment": 0.8, "credit": 0.7, "review": 0.6
-  },
-  "Social": {
-    "friend": 0.8, "message": 0.7, "chat": 0.8, "post": 0.7, "share": 0.7,
-    "social": 0.9, "network": 0.7, "facebook": 0.9, "twitter": 0.9, "instagram": 0.9,
-    "snapchat": 0.9, "tiktok": 0.9, "linkedin": 0.9, "reddit": 0.8, "forum": 0.7,
-    "comment": 0.7, "like": 0.6, "follow": 0.6, "connect": 0.7, "profile": 0.8
-  },
-  "Research": {
-    "research": 0.9, "study": 0.8, "analysis": 0.8, "data": 0.7, "information": 0.6,
-    "journal": 0.9, "article": 0.8, "paper": 0.7, "science": 0.8, "scientific": 0.8,
-    "academic": 0.9, "scholar": 0.9, "experiment": 0.8, "theory": 0.7, "hypothesis": 0.8,
-    "methodology": 0.8, "finding": 0.7, "conclude": 0.7, "reference": 0.7, "citation": 0.8
-  },
-  "Development": {
-    "code": 0.9, "programming": 0.9, "developer": 0.9, "software": 0.8, "github": 0.9,
-    "git": 0.8, "repository": 0.8, "commit": 0.8, "function": 0.7, "class": 0.7,
-    "method": 0.7, "variable": 0.7, "object": 0.7, "array": 0.7, "string": 0.7,
-    "stack": 0.8, "overflow": 0.8, "javascript": 0.8, "python": 0.8, "typescript": 0.8
-  }
-};
+// Category score at which keyword evidence is considered strong (score ≈ 0.63)
+const SCORE_SATURATION = 3;
 
 // Cache for context keywords to avoid storage hits
 let keywordsCache: Record<string, Record<string, number>> | null = null;
@@ -121,56 +75,113 @@ function preprocessText(text: string): string {
   return processedText;
 }
 
+/**
+ * Get context keywords merged with the keyword pack for a language.
+ *
+ * Packs only extend contexts that exist in the dictionary, so deleted or
+ * renamed built-ins don't come back through a pack.
+ */
+export async function getKeywordsForLanguage(language: string = "en"): Promise<Record<string, Record<string, number>>> {
+  return mergeKeywordPack(await getContextKeywords(), language);
+}
+
+/**
+ * Merge the keyword pack for a language into a copy of a dictionary
+ */
+function mergeKeywordPack(
+  dictionary: Record<string, Record<string, number>>,
+  language: string
+): Record<string, Record<string, number>> {
+  const keywords = { ...dictionary };
+  const pack = KEYWORD_PACKS[language];
+  if (!pack) return keywords;
+
+  for (const [category, packWeights] of Object.entries(pack)) {
+    if (keywords[category]) {
+      keywords[category] = { ...packWeights, ...keywords[category] };
+    }
+  }
+  return keywords;
+}
+
 /**
  * Calculate TF-IDF scores with normalization
  */
-function calculateTFIDF(text: string, keywords: Record<string, Record<string, number>>): Record<string, number> {
-  const textLower = text.toLowerCase();
+function calculateTFIDF(
+  termFreq: Record<string, number>,
+  keywords: Record<string, Record<string, number>>,
+  idf: Record<string, number>,
+  matches?: KeywordMatch[]
+): Record<string, number> {
   const scores: Record<string, number> = {};
   
-  // Calculate term frequencies
-  const termFreq: Record<string, number> = {};
-  const words = textLower.split(/\W+/);
-  const totalWords = words.length;
-  
-  for (const word of words) {
-    termFreq[word] = (termFreq[word] || 0) + 1;
-  }
-  
   // Calculate TF-IDF scores for each category
   for (const [category, keywordWeights] of Object.entries(keywords)) {
     let categoryScore = 0;
-    let matchedTerms = 0;
     
     for (const [keyword, weight] of Object.entries(keywordWeights)) {
       if (termFreq[keyword]) {
-        // TF: term frequency normalized by total words
-        const tf = termFreq[keyword] / totalWords;
+        // TF: sublinear, so one word repeated many times can't carry a category
+        const tf = 1 + Math.log(termFreq[keyword]);
         
-        // IDF: a constant value for weight normalization
-        const idf = 1.5;
-        
-        categoryScore += tf * idf * weight;
-        matchedTerms++;
+        categoryScore += tf * (idf[keyword] ?? 0) * weight;
+        matches?.push({ term: keyword, context: category, weight, count: termFreq[keyword], idf: idf[keyword] ?? 0 });
       }
     }
     
-    // Normalize score based on number of matched terms
-    if (matchedTerms > 0) {
-      scores[category] = Math.min(1, categoryScore / (matchedTerms * 0.3));
-    } else {
-      scores[category] = 0;
-    }
+    // Squash into [0, 1)
+    scores[category] = 1 - Math.exp(-categoryScore / SCORE_SATURATION);
   }
   
   return scores;
 }
 
 /**
- * Analyze text with improved TF-IDF scoring
+ * All distinct terms in the keyword dictionaries
+ */
+function keywordVocabulary(keywords: Record<string, Record<string, number>>): Set<string> {
+  const vocabulary = new Set<string>();
+  Object.values(keywords).forEach(weights => Object.keys(weights).forEach(k => vocabulary.add(k)));
+  return vocabulary;
+}
+
+/**
+ * Analyze text with TF-IDF scoring, using IDF learned from browsing history
+ *
+ * @param text - Page text
+ * @param language - Detected page language, selects the keyword pack and tokenizer
+ */
+export async function analyzeText(text: string, language: string = "en"): Promise<Record<string, number>> {
+  return (await explainText(text, language)).scores;
+}
+
+/**
+ * Analyze text like analyzeText, also returning the dictionary keywords that matched
+ *
+ * @param dictionary - Keywords to score with instead of the stored ones, e.g. an unsaved draft
+ */
+export async function explainText(
+  text: string,
+  language: string = "en",
+  dictionary?: Record<string, Record<string, number>>
+): Promise<{ scores: Record<string, number>, matches: KeywordMatch[] }> {
+  const keywords = dictionary
+    ? mergeKeywordPack(dictionary, language)
+    : await getKeywordsForLanguage(language);
+  const vocabulary = keywordVocabulary(keywords);
+  const termFreq = countTerms(preprocessText(text), language, vocabulary);
+  const idf = await getIdfWeights(vocabulary);
+  const matches: KeywordMatch[] = [];
+  const scores = calculateTFIDF(termFreq, keywords, idf, matches);
+  return { scores, matches };
+}
+
+/**
+ * Count a classified page towards the document frequencies of dictionary terms
  */
-export async function analyzeText(text: string): Promise<Record<string, number>> {
-  const processedText = preprocessText(text);
-  const keywords = await getContextKeywords();
-  return calculateTFIDF(processedText, keywords);
+export async function recordDocument(url: string, text: string, language: string = "en"): Promise<void> {
+  const vocabulary = keywordVocabulary(await getKeywordsForLanguage(language));
+  const terms = Object.keys(countTerms(preprocessText(text), language, vocabulary))
+    .filter(term => vocabulary.has(term));
+  await addDocument(url, terms);
 }
\ No newline at end of file
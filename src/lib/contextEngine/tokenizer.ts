@@ -0,0 +1,103 @@
+// Languages written without spaces between words
+export const CJK_LANGUAGES = ["ja", "zh", "ko"];
+
+const CJK_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯]/;
+const CJK_RUN_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯]+/g;
+
+// Intl.Segmenter isn't in the es2017 lib typings
+interface WordSegment {
+  segment: string;
+  isWordLike?: boolean;
+}
+type SegmenterConstructor = new (locale: string, options: { granularity: "word" }) => {
+  segment(text: string): Iterable<WordSegment>;
+};
+
+/**
+ * Whether text contains Chinese, Japanese or Korean characters
+ */
+export function containsCjk(text: string): boolean {
+  return CJK_PATTERN.test(text);
+}
+
+/**
+ * Split text into lowercase word tokens for the given language
+ */
+export function tokenize(text: string, language: string = "en"): string[] {
+  const lower = text.toLowerCase();
+  if (CJK_LANGUAGES.includes(language)) {
+    return segmentCjk(lower, language);
+  }
+  // Unicode-aware so accented words like "información" stay whole
+  return lower.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Segment CJK text into words, using Intl.Segmenter when the browser has it
+ */
+function segmentCjk(text: string, language: string): string[] {
+  const Segmenter = (Intl as unknown as { Segmenter?: SegmenterConstructor }).Segmenter;
+  if (Segmenter) {
+    const segmenter = new Segmenter(language, { granularity: "word" });
+    return Array.from(segmenter.segment(text))
+      .filter(s => s.isWordLike !== false)
+      .map(s => s.segment.trim())
+      .filter(Boolean);
+  }
+
+  // Fallback: character bigrams for CJK runs, plain words for everything else
+  const tokens: string[] = [];
+  for (const run of text.match(CJK_RUN_PATTERN) || []) {
+    if (run.length === 1) tokens.push(run);
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.substring(i, i + 2));
+    }
+  }
+  return tokens.concat(
+    text.replace(CJK_RUN_PATTERN, " ").split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+  );
+}
+
+/**
+ * Count how often each term occurs in text.
+ *
+ * Vocabulary terms that span several tokens ("machine learning", "e-commerce")
+ * are counted as runs of consecutive tokens. Word segmentation of CJK text
+ * doesn't always line up with dictionary entries, so CJK terms from the
+ * vocabulary are counted as substrings.
+ */
+export function countTerms(
+  text: string,
+  language: string,
+  vocabulary: Iterable<string> = []
+): Record<string, number> {
+  const counts: Record<string, number> = {};
+  const tokens = tokenize(text, language);
+  for (const token of tokens) {
+    counts[token] = (counts[token] || 0) + 1;
+  }
+
+  for (const term of vocabulary) {
+    const phrase = tokenize(term, language);
+    if (phrase.length < 2) continue;
+
+    let occurrences = 0;
+    for (let i = 0; i + phrase.length <= tokens.length; i++) {
+      if (phrase.every((token, j) => tokens[i + j] === token)) occurrences++;
+    }
+    if (occurrences > 0) counts[term] = occurrences;
+  }
+
+  if (CJK_LANGUAGES.includes(language)) {
+    const lower = text.toLowerCase();
+    for (const term of vocabulary) {
+      if (!containsCjk(term)) continue;
+      const occurrences = lower.split(term).length - 1;
+      if (occurrences > 0) {
+        counts[term] = Math.max(counts[term] || 0, occurrences);
+      }
+    }
+  }
+
+  return counts;
+}
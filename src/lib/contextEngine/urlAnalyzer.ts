@@ -1,143 +1,6 @@
-// Known domain categories
-export const DOMAIN_CATEGORIES: Record<string, string> = {
-  // Work/Productivity
-  "docs.google.com": "Work",
-  "sheets.google.com": "Work",
-  "slides.google.com": "Work",
-  "drive.google.com": "Work",
-  "office.com": "Work",
-  "microsoft365.com": "Work",
-  "linkedin.com": "Work",
-  "slack.com": "Work",
-  "teams.microsoft.com": "Work",
-  "asana.com": "Work",
-  "trello.com": "Work",
-  "notion.so": "Work",
-  "monday.com": "Work",
-  "atlassian.com": "Work",
-  "jira.com": "Work",
-  "basecamp.com": "Work",
-  "zoom.us": "Work",
-  
-  // Learning
-  "coursera.org": "Learning",
-  "udemy.com": "Learning",
-  "edx.org": "Learning",
-  "khanacademy.org": "Learning",
-  "duolingo.com": "Learning",
-  "canvas.instructure.com": "Learning",
-  "blackboard.com": "Learning",
-  "quizlet.com": "Learning",
-  "chegg.com": "Learning",
-  "brilliant.org": "Learning",
-  "codecademy.com": "Learning",
-  "freecodecamp.org": "Learning",
-  "lynda.com": "Learning",
-  "skillshare.com": "Learning",
-  "pluralsight.com": "Learning",
-  
-  // Entertainment
-  "netflix.com": "Entertainment",
-  "hulu.com": "Entertainment",
-  "disneyplus.com": "Entertainment",
-  "hbomax.com": "Entertainment",
-  "youtube.com": "Entertainment",
-  "twitch.tv": "Entertainment",
-  "spotify.com": "Entertainment",
-  "pandora.com": "Entertainment",
-  "tidal.com": "Entertainment",
-  "soundcloud.com": "Entertainment",
-  "steam.com": "Entertainment",
-  "epicgames.com": "Entertainment",
-  "ign.com": "Entertainment",
-  "imdb.com": "Entertainment",
-  "rottentomatoes.com": "Entertainment",
-  
-  // News
-  "cnn.com": "News",
-  "bbc.com": "News",
-  "nytimes.com": "News",
-  "washingtonpost.com": "News",
-  "reuters.com": "News",
-  "apnews.com": "News",
-  "foxnews.com": "News",
-  "nbcnews.com": "News",
-  "abcnews.go.com": "News",
-  "cbsnews.com": "News",
-  "politico.com": "News",
-  "economist.com": "News",
-  "wsj.com": "News",
-  "bloomberg.com": "News",
-  "theguardian.com": "News",
-  
-  // Development
-  "github.com": "Development",
-  "gitlab.com": "Development",
-  "bitbucket.org": "Development",
-  "stackoverflow.com": "Development",
-  "developer.mozilla.org": "Development",
-  "w3schools.com": "Development",
-  "codepen.io": "Development",
-  "replit.com": "Development",
-  "codesandbox.io": "Development",
-  "jsfiddle.net": "Development",
-  "npmjs.com": "Development",
-  "pypi.org": "Development",
-  "docker.com": "Development",
-  "kubernetes.io": "Development",
-  "digitalocean.com": "Development",
-  
-  // Shopping
-  "amazon.com": "Shopping",
-  "ebay.com": "Shopping",
-  "walmart.com": "Shopping",
-  "target.com": "Shopping",
-  "bestbuy.com": "Shopping",
-  "etsy.com": "Shopping",
-  "aliexpress.com": "Shopping",
-  "wayfair.com": "Shopping",
-  "costco.com": "Shopping",
-  "newegg.com": "Shopping",
-  "homedepot.com": "Shopping",
-  "lowes.com": "Shopping",
-  "macys.com": "Shopping",
-  "nordstrom.com": "Shopping",
-  "zappos.com": "Shopping",
-  
-  // Social
-  "facebook.com": "Social",
-  "twitter.com": "Social",
-  "instagram.com": "Social",
-  "reddit.com": "Social",
-  "pinterest.com": "Social",
-  "tumblr.com": "Social",
-  "tiktok.com": "Social",
-  "snapchat.com": "Social",
-  "discord.com": "Social",
-  "messenger.com": "Social",
-  "telegram.org": "Social",
-  "whatsapp.com": "Social",
-  "signal.org": "Social",
-  "medium.com": "Social",
-  "quora.com": "Social",
-  
-  // Research
-  "scholar.google.com": "Research",
-  "pubmed.ncbi.nlm.nih.gov": "Research",
-  "researchgate.net": "Research",
-  "academia.edu": "Research",
-  "jstor.org": "Research",
-  "springer.com": "Research",
-  "sciencedirect.com": "Research",
-  "ieee.org": "Research",
-  "ncbi.nlm.nih.gov": "Research",
-  "arxiv.org": "Research",
-  "sciencemag.org": "Research",
-  "nature.com": "Research",
-  "webofknowledge.com": "Research",
-  "scopus.com": "Research",
-  "mendeley.com": "Research"
-};
+import { getContextKeywords } from "./textAnalyzer";
+import { lookupDomain } from "./domainMatcher";
+import { DOMAIN_CATEGORIES } from "./domainCategories";
 
 /**
  * Extract domain from URL
@@ -156,27 +19,62 @@ export function extractDomain(url: string): string {
  * Get domain category from predefined list
  */
 export function getDomainCategory(domain: string): string | undefined {
-  // Try exact match
-  if (DOMAIN_CATEGORIES[domain]) {
-    return DOMAIN_CATEGORIES[domain];
-  }
-  
-  // Try with 'www.' prefix removed
-  if (domain.startsWith('www.')) {
-    const withoutWww = domain.substring(4);
-    if (DOMAIN_CATEGORIES[withoutWww]) {
-      return DOMAIN_CATEGORIES[withoutWww];
-    }
-  }
-  
-  // Try parent domain
-  const parts = domain.split('.');
-  if (parts.length > 2) {
-    const parentDomain = parts.slice(parts.length - 2).join('.');
-    return DOMAIN_CATEGORIES[parentDomain];
+  return lookupDomain(DOMAIN_CATEGORIES, domain)?.value;
+}
+
+// Well-known URL path patterns and the context they point to
+const PATH_PATTERNS: Array<{ pattern: RegExp; context: string; score: number }> = [
+  // Development
+  { pattern: /\/(pull|pulls|merge_requests)\/\d+/i, context: "Development", score: 0.6 },
+  { pattern: /\/(issues|commit|commits|blob|tree|compare)\//i, context: "Development", score: 0.5 },
+  { pattern: /\/(docs?|api|reference|sdk)(\/|$)/i, context: "Development", score: 0.3 },
+  { pattern: /\/questions\/\d+/i, context: "Development", score: 0.3 },
+
+  // Learning
+  { pattern: /\/(courses?|lessons?|lectures?|tutorials?|learn)(\/|$)/i, context: "Learning", score: 0.5 },
+
+  // Entertainment
+  { pattern: /^\/(watch|shorts|playlist)(\/|$)/i, context: "Entertainment", score: 0.4 },
+  { pattern: /\/(videos?|movies?|episodes?|games?)\//i, context: "Entertainment", score: 0.3 },
+
+  // Shopping
+  { pattern: /\/(cart|basket|checkout)(\/|$)/i, context: "Shopping", score: 0.6 },
+  { pattern: /\/(dp|gp\/product|products?|itm|listing)\//i, context: "Shopping", score: 0.5 },
+
+  // Social
+  { pattern: /^\/r\/[^/]+/i, context: "Social", score: 0.4 },
+  { pattern: /\/(status|posts?|comments)\/\w+/i, context: "Social", score: 0.3 },
+  { pattern: /\/(messages|inbox|friends|groups)(\/|$)/i, context: "Social", score: 0.3 },
+
+  // News
+  { pattern: /\/(news|politics|world|breaking)(\/|$)/i, context: "News", score: 0.4 },
+  { pattern: /\/\d{4}\/\d{2}\/\d{2}\//, context: "News", score: 0.3 },
+
+  // Research
+  { pattern: /\/(abs|pdf|doi|papers?|articles?\/pii)\//i, context: "Research", score: 0.5 },
+
+  // Work
+  { pattern: /\/(document|spreadsheets|presentation|calendar|dashboard|tasks?|boards?)(\/|$)/i, context: "Work", score: 0.4 }
+];
+
+// Weight of keyword-dictionary matches found in the URL path and query
+const PATH_KEYWORD_WEIGHT = 0.5;
+
+/**
+ * Split a URL component into lowercase word tokens
+ */
+function tokenizeUrlPart(part: string): string[] {
+  let decoded = part;
+  try {
+    decoded = decodeURIComponent(part);
+  } catch {
+    // Keep the raw value if it isn't valid percent-encoding
   }
-  
-  return undefined;
+
+  return decoded
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2);
 }
 
 /**
@@ -188,34 +86,114 @@ export function extractPathKeywords(url: string): string[] {
     return urlObj.pathname
       .split('/')
       .filter(Boolean)
-      .flatMap(segment => 
-        segment
-          .split(/[-_]/)
-          .filter(word => word.length > 2)
-      );
+      .flatMap(segment => tokenizeUrlPart(segment));
   } catch (error) {
     console.error("Error extracting path keywords:", error);
     return [];
   }
 }
 
+/**
+ * Extract keywords from URL query values (search terms, titles, etc.)
+ */
+export function extractQueryKeywords(url: string): string[] {
+  try {
+    const urlObj = new URL(url);
+    return Array.from(urlObj.searchParams.values())
+      .flatMap(value => tokenizeUrlPart(value))
+      // Skip opaque IDs and hashes such as video IDs or session tokens
+      .filter(word => !/\d/.test(word));
+  } catch (error) {
+    console.error("Error extracting query keywords:", error);
+    return [];
+  }
+}
+
+/**
+ * Score URL path patterns
+ */
+export function scorePathPatterns(url: string): Record<string, number> {
+  const scores: Record<string, number> = {};
+
+  try {
+    const { pathname } = new URL(url);
+    for (const { pattern, context, score } of PATH_PATTERNS) {
+      if (pattern.test(pathname)) {
+        scores[context] = Math.max(scores[context] || 0, score);
+      }
+    }
+  } catch (error) {
+    console.error("Error matching path patterns:", error);
+  }
+
+  return scores;
+}
+
+/**
+ * Score path and query tokens against the context keyword dictionaries
+ */
+function scoreUrlKeywords(
+  tokens: string[],
+  keywords: Record<string, Record<string, number>>
+): Record<string, number> {
+  const scores: Record<string, number> = {};
+  const uniqueTokens = new Set(tokens);
+
+  for (const [context, keywordWeights] of Object.entries(keywords)) {
+    let score = 0;
+    for (const token of uniqueTokens) {
+      score += keywordWeights[token] || 0;
+    }
+    if (score > 0) {
+      scores[context] = Math.min(1, score) * PATH_KEYWORD_WEIGHT;
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * URL scores split by where they came from
+ */
+export interface UrlScores {
+  domain: Record<string, number>;
+  paths: Record<string, number>;
+  keywords: Record<string, number>;
+}
+
+/**
+ * Score the domain, path patterns and path/query keywords of a URL separately
+ */
+export async function analyzeUrlParts(
+  url: string,
+  domainCategory: string | undefined = getDomainCategory(extractDomain(url))
+): Promise<UrlScores> {
+  const tokens = [...extractPathKeywords(url), ...extractQueryKeywords(url)];
+  const keywords = await getContextKeywords();
+  
+  return {
+    // Base score from the domain's known category
+    domain: domainCategory ? { [domainCategory]: 0.8 } : {},
+    paths: scorePathPatterns(url),
+    keywords: scoreUrlKeywords(tokens, keywords)
+  };
+}
+
 /**
  * Analyze URL for context clues
  */
-export function analyzeUrl(url: string): Record<string, number> {
-  const domain = extractDomain(url);
-  const domainCategory = getDomainCategory(domain);
-  const pathKeywords = extractPathKeywords(url);
+export async function analyzeUrl(
+  url: string,
+  domainCategory: string | undefined = getDomainCategory(extractDomain(url))
+): Promise<Record<string, number>> {
+  const parts = await analyzeUrlParts(url, domainCategory);
   
   const scores: Record<string, number> = {};
-  
-  // Set base score from domain
-  if (domainCategory) {
-    scores[domainCategory] = 0.8;
+  for (const partScores of [parts.domain, parts.paths, parts.keywords]) {
+    for (const [context, score] of Object.entries(partScores)) {
+      scores[context] = (scores[context] || 0) + score;
+    }
   }
   
-  // Add scores from path keywords (could be enhanced with TF-IDF against keywords)
-  // This is a simplified implementation
-  
   return scores;
-}
\ No newline at end of file
+}
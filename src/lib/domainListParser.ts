@@ -0,0 +1,230 @@
+/**
+ * Parsers for domain category lists: hosts files, CSV, JSON and Adblock/uBlock filters
+ */
+import { DomainListFormat } from "../types/index";
+
+/** Domains read from a list file */
+export interface ParsedDomainList {
+  /** Domain or "*." pattern → category from the file ("" when the format has none) */
+  entries: Record<string, string>;
+  /** Lines or items that weren't a usable domain */
+  skipped: number;
+}
+
+// Names hosts files map to loopback addresses that aren't real sites
+const HOSTS_RESERVED = new Set([
+  "localhost", "localhost.localdomain", "local", "broadcasthost",
+  "ip6-localhost", "ip6-loopback", "ip6-localnet", "ip6-mcastprefix",
+  "ip6-allnodes", "ip6-allrouters", "ip6-allhosts"
+]);
+
+// Adblock filter options that still mean "this whole site"
+const SITE_WIDE_OPTIONS = new Set(["document", "doc", "all", "important", "popup"]);
+
+/**
+ * Guess a list's format from its file name and first lines
+ */
+export function detectDomainListFormat(text: string, fileName = ""): DomainListFormat {
+  const name = fileName.toLowerCase();
+  if (name.endsWith(".json")) return "json";
+  if (name.endsWith(".csv")) return "csv";
+
+  const trimmed = text.trimStart();
+  if (/^\[adblock/i.test(trimmed)) return "adblock";
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) return "json";
+
+  const lines = trimmed.split(/\r?\n/).slice(0, 50);
+  if (lines.some(line => line.startsWith("||") || line.startsWith("!"))) return "adblock";
+  if (lines.some(line => /^\s*(\d{1,3}(\.\d{1,3}){3}|[0-9a-f:]+:[0-9a-f:]*)\s+\S/i.test(line))) return "hosts";
+  if (lines.some(line => !line.startsWith("#") && line.includes(","))) return "csv";
+  return "hosts";
+}
+
+/**
+ * Parse a domain list in the given format
+ */
+export function parseDomainList(text: string, format: DomainListFormat): ParsedDomainList {
+  switch (format) {
+    case "hosts": return parseHosts(text);
+    case "csv": return parseCsv(text);
+    case "json": return parseJson(text);
+    case "adblock": return parseAdblock(text);
+  }
+}
+
+/**
+ * Normalize a domain from a list to the lowercase ASCII form DNR expects,
+ * keeping a leading "*." as a pattern. Returns null if it isn't a domain.
+ */
+export function normalizeListDomain(raw: string): string | null {
+  let domain = raw.trim().toLowerCase().replace(/\.$/, "");
+  const pattern = domain.startsWith("*.");
+  if (pattern) domain = domain.substring(2);
+  if (!domain || HOSTS_RESERVED.has(domain) || /[\s/:@?#\\]/.test(domain)) return null;
+
+  try {
+    // Let URL punycode internationalized names
+    domain = new URL(`http://${domain}`).hostname;
+  } catch {
+    return null;
+  }
+
+  // Patterns may name a bare suffix ("*.edu"), domains need at least two labels
+  if (!(pattern ? /^[a-z0-9_-]+(\.[a-z0-9_-]+)*$/ : /^[a-z0-9_-]+(\.[a-z0-9_-]+)+$/).test(domain) ||
+      /^[\d.]+$/.test(domain)) {
+    return null;
+  }
+  return pattern ? `*.${domain}` : domain;
+}
+
+/**
+ * Hosts files ("0.0.0.0 example.com") and plain one-domain-per-line lists
+ */
+function parseHosts(text: string): ParsedDomainList {
+  const result: ParsedDomainList = { entries: {}, skipped: 0 };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    if (!line) continue;
+
+    const tokens = line.split(/\s+/);
+    // Drop the address column if there is one
+    if (/^(\d{1,3}(\.\d{1,3}){3}|[0-9a-f:]*:[0-9a-f:.]*)$/i.test(tokens[0])) tokens.shift();
+
+    for (const token of tokens) {
+      addEntry(result, token, "");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * CSV with "domain,category" rows; a header row is skipped like any other non-domain
+ */
+function parseCsv(text: string): ParsedDomainList {
+  const result: ParsedDomainList = { entries: {}, skipped: 0 };
+
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+    const [domain = "", category = ""] = splitCsvLine(line);
+    addEntry(result, domain, category.trim());
+  }
+
+  return result;
+}
+
+/**
+ * Split one CSV line, honoring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * JSON: a { domain: category } map, an array of domains, or an array of
+ * { domain, category } objects
+ */
+function parseJson(text: string): ParsedDomainList {
+  const result: ParsedDomainList = { entries: {}, skipped: 0 };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (Array.isArray(data)) {
+    for (const item of data) {
+      if (typeof item === "string") {
+        addEntry(result, item, "");
+      } else if (item && typeof item === "object" && typeof item.domain === "string") {
+        const category = item.category ?? item.context;
+        addEntry(result, item.domain, typeof category === "string" ? category.trim() : "");
+      } else {
+        result.skipped++;
+      }
+    }
+  } else if (data && typeof data === "object") {
+    for (const [domain, category] of Object.entries(data as Record<string, unknown>)) {
+      if (typeof category === "string") {
+        addEntry(result, domain, category.trim());
+      } else {
+        result.skipped++;
+      }
+    }
+  } else {
+    throw new Error("JSON lists must be an object or an array");
+  }
+
+  return result;
+}
+
+/**
+ * Adblock/uBlock filters. Only whole-site rules ("||example.com^", optionally
+ * with $document or $all) and bare hostnames are used; path, cosmetic and
+ * exception filters can't be expressed as a domain category.
+ */
+function parseAdblock(text: string): ParsedDomainList {
+  const result: ParsedDomainList = { entries: {}, skipped: 0 };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith("!") || line.startsWith("[")) continue;
+    if (line.startsWith("@@") || /#[@?$]?#/.test(line)) {
+      result.skipped++;
+      continue;
+    }
+
+    const [filter, options] = line.split("$", 2);
+    if (options && !options.split(",").every(option => SITE_WIDE_OPTIONS.has(option.trim().toLowerCase()))) {
+      result.skipped++;
+      continue;
+    }
+
+    const match = filter.match(/^\|\|([^/^|*]+)\^?\|?$/) || filter.match(/^([^/^|*]+)$/);
+    if (!match) {
+      result.skipped++;
+      continue;
+    }
+    addEntry(result, match[1], "");
+  }
+
+  return result;
+}
+
+function addEntry(result: ParsedDomainList, raw: string, category: string): void {
+  const domain = normalizeListDomain(raw);
+  if (domain) {
+    result.entries[domain] = category;
+  } else {
+    result.skipped++;
+  }
+}
@@ -6,11 +6,37 @@
  */
 
 import { getFocusState, setFocusState, getStorage, setStorage } from "../api/storageApi";
-import { FocusState } from "../types/index";
+import {
+  FocusState,
+  PauseLogEntry,
+  PomodoroPhase,
+  PomodoroSettings,
+  StrictModeSettings,
+  StrictState,
+  TemporaryAllowance
+} from "../types/index";
 import { openSidePanel, closeSidePanel } from "../lib/panels/sidePanelManager";
 import { launchFocusWindow, closeFocusWindow } from "../lib/windows/focusWindow";
 import { releaseParkedLinks } from "../api/parkedLinksApi";
 import { ungroupAllTabs } from "../api/tabsApi";
+import { getContexts, isContextAllowed } from "../api/contextsApi";
+import { getFocusSettings, DEFAULT_SECONDARY_ALLOW_THRESHOLD, DEFAULT_OVERRIDE_BUDGET } from "../api/focusApi";
+import { startPomodoro, nextPomodoroPhase, pomodoroDurationMs, isPomodoroBreak, describePomodoroPhase } from "./pomodoro";
+import { isStrictSession, unlockPhraseMatches } from "./strictMode";
+import { ALLOWANCE_MINUTES, getActiveAllowances } from "./allowances";
+import { getRegistrableDomain } from "./contextEngine/domainMatcher";
+
+// Alarm that fires when the current Pomodoro phase is over
+export const POMODORO_ALARM = "pomodoroPhase";
+
+// Alarm that resumes a paused session once the maximum pause length is up
+export const PAUSE_ALARM = "focusPause";
+
+// Alarm that fires when the next temporary allowance runs out
+export const ALLOWANCE_ALARM = "focusAllowance";
+
+// Pauses kept in the pause log
+const MAX_PAUSE_LOG_ENTRIES = 100;
 
 // State for tracking if a navigation was blocked recently (for badge alert)
 let recentlyBlocked = false;
@@ -21,28 +47,59 @@ let blockClearTimer: NodeJS.Timeout | undefined;
  * 
  * @param allowed - Array of context categories that are allowed during focus
  * @param durationMin - Optional duration in minutes after which focus will automatically end
+ * @param excluded - Sub-contexts to block even though their parent is allowed
+ * @param pomodoro - Run the session in work/break cycles instead of one block (durationMin is then ignored)
+ * @param strict - Make the session strict, with these escape hatches; it needs a duration
  */
-export async function start(allowed: string[], durationMin?: number): Promise<void> {
+export async function start(
+  allowed: string[],
+  durationMin?: number,
+  excluded: string[] = [],
+  pomodoro?: PomodoroSettings,
+  strict?: StrictModeSettings
+): Promise<void> {
   // Safety check for allowed contexts
   const safeAllowed = Array.isArray(allowed) ? allowed : [];
+  const safeExcluded = Array.isArray(excluded) ? excluded : [];
   
-  // Calculate end time if duration is provided
-  const endTime = durationMin ? Date.now() + durationMin * 60 * 1000 : undefined;
+  // Calculate end time if duration is provided; a Pomodoro session ends after its last work interval
+  const now = Date.now();
+  const pomodoroState = pomodoro ? startPomodoro(pomodoro, now) : undefined;
+  const endTime = pomodoro
+    ? now + pomodoroDurationMs(pomodoro)
+    : durationMin ? now + durationMin * 60 * 1000 : undefined;
+  
+  // A strict session runs until endTime, so it has to have one
+  if (strict && !endTime) {
+    throw new Error("A strict session needs a duration");
+  }
+  // The escape hatch is fixed now, so changing the options mid-session doesn't loosen it
+  const strictState: StrictState | undefined = strict && {
+    unlockPhrase: strict.emergencyUnlock ? strict.unlockPhrase : undefined,
+    unlockCooldownMinutes: strict.unlockCooldownMinutes
+  };
+  const { overrideBudget = DEFAULT_OVERRIDE_BUDGET } = await getFocusSettings();
   
   // Save focus state
   await setFocusState({
     active: true,
     allowedContexts: safeAllowed,
-    endTime
+    excludedContexts: safeExcluded,
+    endTime,
+    pomodoro: pomodoroState,
+    scheduleIds: undefined,
+    pausedAt: undefined,
+    resumeAt: undefined,
+    strict: strictState,
+    allowances: [],
+    overridesLeft: overrideBudget
   });
+  chrome.alarms.clear(ALLOWANCE_ALARM);
   
-  // Store blockedCategories for backward compatibility
-  const knownContexts = [
-    "Work", "Development", "Research", "Learning", 
-    "Entertainment", "Social", "Shopping", "News"
-  ];
-  const blockedCategories = knownContexts.filter(ctx => !safeAllowed.includes(ctx));
-  await setStorage({ blockedCategories });
+  await storeBlockedCategories();
+  if (pomodoroState) {
+    chrome.alarms.create(POMODORO_ALARM, { when: pomodoroState.phaseEndTime });
+  }
   
   // Open the side panel for persistent timer display
   await openSidePanel();
@@ -55,21 +112,302 @@ export async function start(allowed: string[], durationMin?: number): Promise<vo
   }
   
   // Set badge to show focus is active
-  chrome.action.setBadgeText({ text: "•" });
-  chrome.action.setBadgeBackgroundColor({ color: "#1565c0" }); // Blue
+  showSessionBadge(pomodoroState?.phase);
   
   // Show notification
+  const message = pomodoro ?
+    `Pomodoro started: ${pomodoro.cycles} × ${pomodoro.workMinutes} minutes of work with ${pomodoro.breakMinutes}-minute breaks.` :
+    durationMin ? 
+    `Focus session started for ${durationMin} minutes. Stay focused!` :
+    'Focus session started. Stay focused!';
   chrome.notifications.create({
     type: 'basic',
     iconUrl: chrome.runtime.getURL('icons/icon48.png'),
     title: 'Focus Session Started',
-    message: durationMin ? 
-      `Focus session started for ${durationMin} minutes. Stay focused!` :
-      'Focus session started. Stay focused!',
+    message: strict ? `${message} Strict mode is on: it can't be ended early.` : message,
+    priority: 2
+  });
+}
+
+/**
+ * Move a Pomodoro session on to the phase it should be in now, catching up
+ * on phases missed while the browser was asleep. The last work interval
+ * isn't followed by a break; the session's endTime ends it.
+ */
+export async function advancePomodoro(): Promise<void> {
+  const focusState = await getFocusState();
+  if (!focusState.active || !focusState.pomodoro || focusState.pausedAt) return;
+  
+  let state = focusState.pomodoro;
+  const now = Date.now();
+  while (state.phaseEndTime <= now) {
+    const next = nextPomodoroPhase(state);
+    if (!next) break;
+    state = next;
+  }
+  if (state === focusState.pomodoro) return;
+  
+  // The DNR rules follow the focus state, so this widens or restores blocking
+  await setFocusState({ pomodoro: state });
+  await storeBlockedCategories();
+  chrome.alarms.create(POMODORO_ALARM, { when: state.phaseEndTime });
+  showSessionBadge(state.phase);
+  
+  const minutesLeft = Math.round((state.phaseEndTime - now) / 60000);
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon48.png'),
+    title: isPomodoroBreak(state) ? 'Time for a break' : 'Back to work',
+    message: `${describePomodoroPhase(state)}: ${minutesLeft} minutes.`,
     priority: 2
   });
 }
 
+/**
+ * Whether the current session is strict and can't be ended, paused or
+ * reclassified from the blocked page yet
+ */
+export async function isStrict(): Promise<boolean> {
+  return isStrictSession(await getFocusState());
+}
+
+/**
+ * Refuse an early way out of a strict session
+ * 
+ * @param action - What the user tried, e.g. "ended", for the error message
+ */
+export async function ensureNotStrict(action: string): Promise<void> {
+  if (await isStrict()) {
+    throw new Error(`This is a strict session, so it can't be ${action} before it's over`);
+  }
+}
+
+/**
+ * Start the emergency unlock of a strict session. Once the typed phrase
+ * matches, the session stays strict for the cooldown and can then be ended.
+ * 
+ * @returns When the session unlocks
+ */
+export async function requestEmergencyUnlock(typedPhrase: string): Promise<number> {
+  const { active, strict } = await getFocusState();
+  if (!active || !strict) {
+    throw new Error("There's no strict session to unlock");
+  }
+  if (!strict.unlockPhrase) {
+    throw new Error("This session was started without an emergency unlock");
+  }
+  // Asking again doesn't restart the cooldown
+  if (strict.unlockAt) return strict.unlockAt;
+  if (!unlockPhraseMatches(typedPhrase, strict.unlockPhrase)) {
+    throw new Error("That isn't the unlock phrase");
+  }
+  
+  const unlockAt = Date.now() + strict.unlockCooldownMinutes * 60 * 1000;
+  await setFocusState({ strict: { ...strict, unlockAt } });
+  console.log(`[FocusEngine] Emergency unlock at ${new Date(unlockAt).toLocaleTimeString()}`);
+  return unlockAt;
+}
+
+/**
+ * Let a blocked domain through for a few minutes, using up one override from
+ * the session's budget. Allowing a domain again extends its allowance.
+ * 
+ * @param hostname - Host of the blocked page; its whole site is allowed
+ * @returns The allowance and the overrides left
+ */
+export async function allowDomainTemporarily(
+  hostname: string,
+  minutes: number
+): Promise<{ allowance: TemporaryAllowance, overridesLeft: number }> {
+  const focusState = await getFocusState();
+  if (!focusState.active) {
+    throw new Error("There's no focus session to make an exception to");
+  }
+  await ensureNotStrict("overridden");
+  if (!ALLOWANCE_MINUTES.includes(minutes)) {
+    throw new Error(`Allowances last ${ALLOWANCE_MINUTES.join(", ")} minutes`);
+  }
+  const overridesLeft = focusState.overridesLeft ?? 0;
+  if (overridesLeft <= 0) {
+    throw new Error("This session's override budget is used up");
+  }
+  
+  const domain = getRegistrableDomain(hostname);
+  if (!domain) {
+    throw new Error("Only websites can be allowed");
+  }
+  const now = Date.now();
+  const running = getActiveAllowances(focusState, now);
+  const previous = running.find(a => a.domain === domain);
+  const allowance = { domain, expiresAt: Math.max(now + minutes * 60 * 1000, previous?.expiresAt ?? 0) };
+  const allowances = [...running.filter(a => a.domain !== domain), allowance];
+  
+  // The DNR rules follow the focus state, so this lets the domain through
+  await setFocusState({ allowances, overridesLeft: overridesLeft - 1 });
+  scheduleAllowanceAlarm(allowances);
+  console.log(`[FocusEngine] ${domain} allowed until ${new Date(allowance.expiresAt).toLocaleTimeString()}, ${overridesLeft - 1} overrides left`);
+  return { allowance, overridesLeft: overridesLeft - 1 };
+}
+
+/**
+ * Drop allowances that have run out, so their domains are blocked again
+ * 
+ * @returns The domains whose allowance ran out
+ */
+export async function expireAllowances(): Promise<string[]> {
+  const focusState = await getFocusState();
+  const now = Date.now();
+  const expired = (focusState.allowances ?? []).filter(a => a.expiresAt <= now);
+  if (expired.length === 0) return [];
+  
+  const allowances = getActiveAllowances(focusState, now);
+  await setFocusState({ allowances });
+  scheduleAllowanceAlarm(allowances);
+  console.log(`[FocusEngine] Allowance over for ${expired.map(a => a.domain).join(", ")}`);
+  return expired.map(a => a.domain);
+}
+
+function scheduleAllowanceAlarm(allowances: TemporaryAllowance[]): void {
+  if (allowances.length > 0) {
+    chrome.alarms.create(ALLOWANCE_ALARM, { when: Math.min(...allowances.map(a => a.expiresAt)) });
+  } else {
+    chrome.alarms.clear(ALLOWANCE_ALARM);
+  }
+}
+
+/**
+ * Pause the current session: blocking is lifted and its timers stop until it's resumed
+ */
+export async function pause(): Promise<void> {
+  const focusState = await getFocusState();
+  if (!focusState.active || focusState.pausedAt) return;
+  
+  const now = Date.now();
+  const { maxPauseMinutes } = await getFocusSettings();
+  const resumeAt = maxPauseMinutes ? now + maxPauseMinutes * 60 * 1000 : undefined;
+  
+  // The DNR rules follow the focus state, so this lifts them
+  await setFocusState({ pausedAt: now, resumeAt });
+  chrome.alarms.clear(POMODORO_ALARM);
+  if (resumeAt) {
+    chrome.alarms.create(PAUSE_ALARM, { when: resumeAt });
+  }
+  showSessionBadge(focusState.pomodoro?.phase, true);
+  console.log(`[FocusEngine] Session paused${resumeAt ? ` until ${new Date(resumeAt).toLocaleTimeString()}` : ""}`);
+  
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon48.png'),
+    title: 'Focus Session Paused',
+    message: resumeAt ?
+      `Nothing is blocked for now. The session resumes by itself in ${maxPauseMinutes} minutes.` :
+      'Nothing is blocked until you resume the session.',
+    priority: 2
+  });
+}
+
+/**
+ * Resume a paused session with the time it had left when it was paused
+ * 
+ * @param auto - The maximum pause length is up, rather than the user resuming
+ */
+export async function resume(auto = false): Promise<void> {
+  const focusState = await getFocusState();
+  const { pausedAt, resumeAt } = focusState;
+  if (!focusState.active || !pausedAt) return;
+  
+  // An auto-resume counts from when it was due, even if the browser was asleep then
+  const resumedAt = auto && resumeAt ? Math.min(resumeAt, Date.now()) : Date.now();
+  const pausedFor = resumedAt - pausedAt;
+  
+  // A scheduled session still ends when its schedule entries do
+  const endTime = focusState.endTime && !focusState.scheduleIds ? focusState.endTime + pausedFor : focusState.endTime;
+  const pomodoro = focusState.pomodoro && {
+    ...focusState.pomodoro,
+    phaseEndTime: focusState.pomodoro.phaseEndTime + pausedFor
+  };
+  
+  await setFocusState({ pausedAt: undefined, resumeAt: undefined, endTime, pomodoro });
+  chrome.alarms.clear(PAUSE_ALARM);
+  if (pomodoro) {
+    chrome.alarms.create(POMODORO_ALARM, { when: pomodoro.phaseEndTime });
+  }
+  await logPause(pausedAt, resumedAt, auto ? "maxPause" : "resume");
+  showSessionBadge(pomodoro?.phase);
+  console.log(`[FocusEngine] Session resumed after ${Math.round(pausedFor / 60000)} minutes`);
+  
+  chrome.notifications.create({
+    type: 'basic',
+    iconUrl: chrome.runtime.getURL('icons/icon48.png'),
+    title: 'Focus Session Resumed',
+    message: auto ? 'Your pause is over. Back to focusing!' : 'Back to focusing!',
+    priority: 2
+  });
+}
+
+/**
+ * Resume a paused session whose maximum pause length is up, in case its
+ * alarm was missed while the browser was closed or asleep
+ */
+export async function resumeIfPauseOver(): Promise<void> {
+  const { active, pausedAt, resumeAt } = await getFocusState();
+  if (active && pausedAt && resumeAt && resumeAt <= Date.now()) {
+    await resume(true);
+  }
+}
+
+/**
+ * Whether the current session is paused
+ */
+export async function isPaused(): Promise<boolean> {
+  const { active, pausedAt } = await getFocusState();
+  return active && !!pausedAt;
+}
+
+/**
+ * Add a finished pause to the pause log
+ */
+async function logPause(pausedAt: number, resumedAt: number, endedBy: PauseLogEntry["endedBy"]): Promise<void> {
+  const { pauseLog = [] } = await getStorage(["pauseLog"]);
+  await setStorage({
+    pauseLog: [...pauseLog, { pausedAt, resumedAt, endedBy }].slice(-MAX_PAUSE_LOG_ENTRIES)
+  });
+}
+
+/**
+ * Whether the current session is on a Pomodoro break
+ */
+export async function isOnBreak(): Promise<boolean> {
+  const { active, pomodoro } = await getFocusState();
+  return active && isPomodoroBreak(pomodoro);
+}
+
+/**
+ * Show the focus badge for the current phase: blue while working, green on a
+ * break and grey while paused
+ */
+export function showSessionBadge(phase?: PomodoroPhase, paused = false): void {
+  if (paused) {
+    chrome.action.setBadgeText({ text: "⏸" });
+    chrome.action.setBadgeBackgroundColor({ color: "#757575" }); // Grey
+    return;
+  }
+  const onBreak = !!phase && phase !== "work";
+  chrome.action.setBadgeText({ text: onBreak ? "☕" : "•" });
+  chrome.action.setBadgeBackgroundColor({ color: onBreak ? "#2e7d32" : "#1565c0" }); // Green : Blue
+}
+
+/**
+ * Store blockedCategories for backward compatibility (the side panel lists them)
+ */
+async function storeBlockedCategories(): Promise<void> {
+  const [focusState, knownContexts] = await Promise.all([getFocusState(), getContexts()]);
+  const blockedCategories = knownContexts
+    .filter(ctx => !isContextAllowed(ctx.name, focusState, knownContexts))
+    .map(ctx => ctx.name);
+  await setStorage({ blockedCategories });
+}
+
 /**
  * End a focus session
  * @param saveWorkspaceName - Optional workspace name to save current tab groups
@@ -111,11 +449,27 @@ export async function end(saveWorkspaceName?: string): Promise<void> {
     }
   }
   
+  // A session ended while paused still logs its pause
+  const { pausedAt } = await getFocusState();
+  if (pausedAt) {
+    await logPause(pausedAt, Date.now(), "sessionEnd");
+  }
+  
   // Clear focus state
   await setFocusState({
     active: false,
-    endTime: undefined
+    endTime: undefined,
+    pomodoro: undefined,
+    scheduleIds: undefined,
+    pausedAt: undefined,
+    resumeAt: undefined,
+    strict: undefined,
+    allowances: undefined,
+    overridesLeft: undefined
   });
+  chrome.alarms.clear(POMODORO_ALARM);
+  chrome.alarms.clear(PAUSE_ALARM);
+  chrome.alarms.clear(ALLOWANCE_ALARM);
   
   // Close UI components
   await closeSidePanel();
@@ -145,17 +499,40 @@ export async function end(saveWorkspaceName?: string): Promise<void> {
   await releaseParkedLinks();
 }
 
+/**
+ * Find an allowed context a page also scores highly for, when the
+ * multi-label policy is on (a Research article that reads as News too
+ * stays open in a Research session)
+ * 
+ * @param scores - The page's score for every context
+ * @returns The best-scoring allowed context at or above the threshold, if any
+ */
+export async function findAllowingContext(scores?: Record<string, number>): Promise<string | undefined> {
+  if (!scores) return undefined;
+  
+  const settings = await getFocusSettings();
+  if (!settings.allowSecondaryContexts) return undefined;
+  
+  const threshold = settings.secondaryAllowThreshold ?? DEFAULT_SECONDARY_ALLOW_THRESHOLD;
+  const [focusState, contexts] = await Promise.all([getFocusState(), getContexts()]);
+  const [best] = Object.entries(scores)
+    .filter(([context, score]) => score >= threshold && isContextAllowed(context, focusState, contexts))
+    .sort((a, b) => b[1] - a[1]);
+  return best?.[0];
+}
+
 /**
  * Check if a context should be blocked
  * 
  * @param context - The context category to check
+ * @param scores - The page's score for every context, so an allowed secondary context can let it through
  * @returns true if the context should be blocked, false otherwise
  */
-export async function isBlocked(context: string): Promise<boolean> {
+export async function isBlocked(context: string, scores?: Record<string, number>): Promise<boolean> {
   const focusState = await getFocusState();
   
-  // If focus is not active, nothing is blocked
-  if (!focusState.active) {
+  // If focus is not active or is paused, nothing is blocked
+  if (!focusState.active || focusState.pausedAt) {
     return false;
   }
   
@@ -166,14 +543,21 @@ export async function isBlocked(context: string): Promise<boolean> {
   }
   
   // Add logging to help debug
-  console.log("[FocusEngine] allowed:", focusState.allowedContexts, "context:", context);
+  console.log("[FocusEngine] allowed:", focusState.allowedContexts, "excluded:", focusState.excludedContexts, "context:", context);
   
-  // If context is in allowed list, it's not blocked
-  if (focusState.allowedContexts.includes(context)) {
+  // If the context (or its parent) is allowed and it isn't excluded, it's not blocked
+  if (isContextAllowed(context, focusState, await getContexts())) {
     return false;
   }
   
-  // Context is not in allowed list, so it's blocked
+  // The page also belongs to an allowed context
+  const allowingContext = await findAllowingContext(scores);
+  if (allowingContext) {
+    console.log(`[FocusEngine] ${context} allowed through via ${allowingContext}`);
+    return false;
+  }
+  
+  // Context is not allowed, so it's blocked
   // Update the "recently blocked" state for badge
   recentlyBlocked = true;
   
@@ -190,8 +574,7 @@ export async function isBlocked(context: string): Promise<boolean> {
     if (recentlyBlocked) {
       recentlyBlocked = false;
       // Restore the normal focus badge
-      chrome.action.setBadgeText({ text: "•" });
-      chrome.action.setBadgeBackgroundColor({ color: "#1565c0" }); // Blue
+      getFocusState().then(state => showSessionBadge(state.pomodoro?.phase, !!state.pausedAt));
     }
   }, 30000);
   
@@ -214,10 +597,25 @@ export async function isActive(): Promise<boolean> {
  * @returns Seconds left in the focus session, or -1 if no timer (unlimited session)
  */
 export async function getTimeLeft(): Promise<number> {
-  const { active, endTime } = await getFocusState();
+  const { active, endTime, pausedAt } = await getFocusState();
   if (!active) return 0; // Not active, no time
   if (!endTime) return -1; // -1 = unlimited/indefinite session
-  return Math.max(0, endTime - Date.now()) / 1000; // seconds
+  return Math.max(0, endTime - (pausedAt ?? Date.now())) / 1000; // seconds, frozen while paused
+}
+
+/**
+ * Get the current Pomodoro phase and the seconds left in it
+ * 
+ * @returns undefined unless a Pomodoro session is running
+ */
+export async function getPhaseStatus(): Promise<{ phase: PomodoroPhase, label: string, seconds: number } | undefined> {
+  const { active, pomodoro, pausedAt } = await getFocusState();
+  if (!active || !pomodoro) return undefined;
+  return {
+    phase: pomodoro.phase,
+    label: describePomodoroPhase(pomodoro),
+    seconds: Math.max(0, pomodoro.phaseEndTime - (pausedAt ?? Date.now())) / 1000
+  };
 }
 
 /**
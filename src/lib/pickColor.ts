@@ -1,22 +1,10 @@
-export function pickColorForContext(context: string): chrome.tabGroups.ColorEnum {
-  switch (context) {
-    case "Work":
-      return "yellow";
-    case "Learning":
-      return "blue";
-    case "Entertainment":
-      return "green";
-    case "News":
-      return "red";
-    case "Shopping":
-      return "purple";
-    case "Social":
-      return "cyan";
-    case "Research":
-      return "pink";
-    case "Development":
-      return "orange";
-    default:
-      return "grey";  // Chrome uses "grey" (British spelling) not "gray"
-  }
-}
\ No newline at end of file
+import { DEFAULT_CONTEXTS } from "../api/contextsApi";
+import { ContextDefinition } from "../types/index";
+
+export function pickColorForContext(
+  context: string,
+  contexts: ContextDefinition[] = DEFAULT_CONTEXTS
+): chrome.tabGroups.ColorEnum {
+  const definition = contexts.find(c => c.name === context);
+  return definition?.color ?? "grey";  // Chrome uses "grey" (British spelling) not "gray"
+}
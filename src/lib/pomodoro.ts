@@ -0,0 +1,85 @@
+/**
+ * Pomodoro phase schedule: work intervals separated by short breaks, with a
+ * long break after every Nth interval. The session ends with the last work
+ * interval, so there's no trailing break.
+ */
+import { PomodoroPhase, PomodoroSettings, PomodoroState } from "../types/index";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * State for the first work interval of a new session
+ */
+export function startPomodoro(settings: PomodoroSettings, now = Date.now()): PomodoroState {
+  return {
+    ...settings,
+    phase: "work",
+    cycle: 1,
+    phaseEndTime: now + settings.workMinutes * MINUTE_MS
+  };
+}
+
+/**
+ * The phase that follows the current one, or undefined once the last work
+ * interval is over. Phases start when the previous one was due to end, so
+ * the schedule doesn't drift when alarms fire late.
+ */
+export function nextPomodoroPhase(state: PomodoroState): PomodoroState | undefined {
+  if (state.phase !== "work") {
+    return {
+      ...state,
+      phase: "work",
+      cycle: state.cycle + 1,
+      phaseEndTime: state.phaseEndTime + state.workMinutes * MINUTE_MS
+    };
+  }
+  if (state.cycle >= state.cycles) return undefined;
+
+  const phase = breakAfter(state.cycle, state);
+  return {
+    ...state,
+    phase,
+    phaseEndTime: state.phaseEndTime + phaseMinutes(phase, state) * MINUTE_MS
+  };
+}
+
+/**
+ * Total length of a session, for its overall end time
+ */
+export function pomodoroDurationMs(settings: PomodoroSettings): number {
+  let minutes = settings.cycles * settings.workMinutes;
+  for (let cycle = 1; cycle < settings.cycles; cycle++) {
+    minutes += phaseMinutes(breakAfter(cycle, settings), settings);
+  }
+  return minutes * MINUTE_MS;
+}
+
+/**
+ * Whether a session is currently on a break
+ */
+export function isPomodoroBreak(state?: PomodoroState): boolean {
+  return !!state && state.phase !== "work";
+}
+
+/**
+ * Short description of the current phase, e.g. "Work 2/4" or "Long break"
+ */
+export function describePomodoroPhase(state: PomodoroState): string {
+  switch (state.phase) {
+    case "work": return `Work ${state.cycle}/${state.cycles}`;
+    case "break": return "Break";
+    case "longBreak": return "Long break";
+  }
+}
+
+function breakAfter(cycle: number, settings: PomodoroSettings): PomodoroPhase {
+  return settings.longBreakEvery > 0 && cycle % settings.longBreakEvery === 0 ? "longBreak" : "break";
+}
+
+function phaseMinutes(phase: PomodoroPhase, settings: PomodoroSettings): number {
+  switch (phase) {
+    case "work": return settings.workMinutes;
+    case "break": return settings.breakMinutes;
+    case "longBreak": return settings.longBreakMinutes;
+  }
+}
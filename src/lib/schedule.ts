@@ -0,0 +1,117 @@
+/**
+ * Recurring focus schedule: which entries are running at a given time and
+ * when the next one starts or ends. Entries use local wall-clock times, so
+ * occurrences are rebuilt from calendar days rather than by adding 24 hours.
+ */
+import { FocusSchedule } from "../types/index";
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** One run of a schedule entry */
+export interface ScheduleOccurrence {
+  entry: FocusSchedule;
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse "HH:MM" into minutes after midnight
+ */
+export function parseTime(time: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match) return undefined;
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : undefined;
+}
+
+/**
+ * The run of an entry that starts on the given calendar day, if it runs that day
+ */
+function occurrenceOn(entry: FocusSchedule, day: Date): ScheduleOccurrence | undefined {
+  const start = parseTime(entry.start);
+  const end = parseTime(entry.end);
+  if (start === undefined || end === undefined || !entry.days.includes(day.getDay())) return undefined;
+
+  const at = (minutes: number, dayOffset = 0) =>
+    new Date(day.getFullYear(), day.getMonth(), day.getDate() + dayOffset, 0, minutes).getTime();
+  return {
+    entry,
+    start: at(start),
+    // Ending at or before the start time means the session runs past midnight
+    end: end > start ? at(end) : at(end, 1)
+  };
+}
+
+/**
+ * Runs of enabled entries that start between `fromDay` days before and `toDay`
+ * days after the day of `now`
+ */
+function occurrencesAround(schedules: FocusSchedule[], now: number, fromDay: number, toDay: number): ScheduleOccurrence[] {
+  const today = new Date(now);
+  const occurrences: ScheduleOccurrence[] = [];
+  for (let offset = fromDay; offset <= toDay; offset++) {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+    for (const entry of schedules.filter(e => e.enabled)) {
+      const occurrence = occurrenceOn(entry, day);
+      if (occurrence) occurrences.push(occurrence);
+    }
+  }
+  return occurrences;
+}
+
+/**
+ * Entries running at `now`, including ones that started yesterday and run past midnight
+ */
+export function getActiveOccurrences(schedules: FocusSchedule[], now = Date.now()): ScheduleOccurrence[] {
+  return occurrencesAround(schedules, now, -1, 0).filter(o => o.start <= now && now < o.end);
+}
+
+/**
+ * The next time any entry starts or ends, for the alarm that re-checks the schedule
+ */
+export function getNextScheduleChange(schedules: FocusSchedule[], now = Date.now()): number | undefined {
+  const times = occurrencesAround(schedules, now, -1, 7)
+    .flatMap(o => [o.start, o.end])
+    .filter(time => time > now);
+  return times.length > 0 ? Math.min(...times) : undefined;
+}
+
+/**
+ * What overlapping entries add up to: everything any of them allows, minus
+ * what all of them exclude, until the last one ends
+ */
+export function mergeOccurrences(occurrences: ScheduleOccurrence[]): {
+  allowedContexts: string[];
+  excludedContexts: string[];
+  endTime: number;
+} {
+  const allowed = new Set(occurrences.flatMap(o => o.entry.allowedContexts));
+  const excluded = occurrences
+    .map(o => o.entry.excludedContexts ?? [])
+    .reduce((common, list) => common.filter(context => list.includes(context)));
+  return {
+    allowedContexts: Array.from(allowed),
+    excludedContexts: excluded,
+    endTime: Math.max(...occurrences.map(o => o.end))
+  };
+}
+
+/**
+ * Describe an entry's days and times, e.g. "Weekdays 09:00–12:00"
+ */
+export function describeSchedule(entry: FocusSchedule): string {
+  const days = [...entry.days].sort();
+  const weekdays = [1, 2, 3, 4, 5];
+  let dayText: string;
+  if (days.length === 7) {
+    dayText = "Every day";
+  } else if (days.length === 5 && weekdays.every(d => days.includes(d))) {
+    dayText = "Weekdays";
+  } else if (days.length === 2 && days.includes(0) && days.includes(6)) {
+    dayText = "Weekends";
+  } else {
+    dayText = days.map(d => DAY_NAMES[d]).join(", ");
+  }
+  return `${dayText} ${entry.start}–${entry.end}`;
+}
@@ -0,0 +1,23 @@
+/**
+ * Strict sessions can't be ended, paused or reclassified from the blocked
+ * page until they're over, unless the user types the unlock phrase and waits
+ * out the cooldown.
+ */
+import { FocusState } from "../types/index";
+
+/**
+ * Whether a session is strict right now: it's running, was started strict
+ * and no emergency unlock has come through
+ */
+export function isStrictSession(focusState: FocusState, now = Date.now()): boolean {
+  const { active, strict } = focusState;
+  return active && !!strict && !(strict.unlockAt && strict.unlockAt <= now);
+}
+
+/**
+ * Whether a typed phrase matches the unlock phrase. Spacing doesn't count, every character does.
+ */
+export function unlockPhraseMatches(typed: string, phrase: string): boolean {
+  const normalize = (text: string) => text.trim().replace(/\s+/g, " ");
+  return normalize(typed) === normalize(phrase);
+}
@@ -1,13 +1,96 @@
 import { getStorage, setStorage } from "../api/storageApi";
-import { FocusSettings } from "../types/index";
+import {
+  FocusSettings,
+  ClassifierSettings,
+  ClassificationStats,
+  ContextDefinition,
+  PomodoroSettings,
+  StrictModeSettings,
+  FocusSchedule,
+  DomainList,
+  DomainListFormat,
+  KeywordPreview
+} from "../types/index";
+import { DEFAULT_CLASSIFIER_SETTINGS } from "../api/classifierApi";
+import { DEFAULT_SECONDARY_ALLOW_THRESHOLD, DEFAULT_OVERRIDE_BUDGET } from "../api/focusApi";
+import { DEFAULT_POMODORO_SETTINGS } from "../api/pomodoroApi";
+import { DEFAULT_STRICT_MODE_SETTINGS, MIN_UNLOCK_PHRASE_LENGTH, validateUnlockPhrase } from "../api/strictModeApi";
+import { getSchedules, addSchedule, setScheduleEnabled, removeSchedule } from "../api/schedulesApi";
+import { describeSchedule } from "../lib/schedule";
 import { getParkedLinks, releaseParkedLinks, clearParkedLinks } from "../api/parkedLinksApi";
+import {
+  getContexts,
+  createContext,
+  renameContext,
+  recolorContext,
+  deleteContext,
+  formatContextPath,
+  sortContextTree,
+  CONTEXT_COLORS
+} from "../api/contextsApi";
+import { updateContextGroups } from "../api/tabsApi";
+import { normalizeOverridePrefix } from "../lib/contextEngine/subUrlOverrides";
+import { getDomainLists, importDomainList, updateDomainList, removeDomainList } from "../api/domainListsApi";
+import { detectDomainListFormat } from "../lib/domainListParser";
+import {
+  KeywordDictionary,
+  getKeywordDictionary,
+  saveKeywordDictionary,
+  resetKeywordDictionary,
+  exportKeywordDictionary,
+  parseKeywordDictionary,
+  normalizeKeyword,
+  clampKeywordWeight
+} from "../api/keywordsApi";
 
 // DOM Elements
 const extensionEnabledCheckbox = document.getElementById("extensionEnabledCheckbox") as HTMLInputElement;
 const notificationsCheckbox = document.getElementById("notificationsCheckbox") as HTMLInputElement;
 const autoGroupCheckbox = document.getElementById("autoGroupCheckbox") as HTMLInputElement;
+const tabGroupLevelSelect = document.getElementById("tabGroupLevelSelect") as HTMLSelectElement;
 const switchThresholdInput = document.getElementById("switchThresholdInput") as HTMLInputElement;
 const timeWindowInput = document.getElementById("timeWindowInput") as HTMLInputElement;
+const allowSecondaryCheckbox = document.getElementById("allowSecondaryCheckbox") as HTMLInputElement;
+const secondaryThresholdInput = document.getElementById("secondaryThresholdInput") as HTMLInputElement;
+const maxPauseInput = document.getElementById("maxPauseInput") as HTMLInputElement;
+const overrideBudgetInput = document.getElementById("overrideBudgetInput") as HTMLInputElement;
+
+// Pomodoro UI Elements
+const pomodoroWorkInput = document.getElementById("pomodoroWorkInput") as HTMLInputElement;
+const pomodoroBreakInput = document.getElementById("pomodoroBreakInput") as HTMLInputElement;
+const pomodoroLongBreakInput = document.getElementById("pomodoroLongBreakInput") as HTMLInputElement;
+const pomodoroCyclesInput = document.getElementById("pomodoroCyclesInput") as HTMLInputElement;
+const pomodoroLongBreakEveryInput = document.getElementById("pomodoroLongBreakEveryInput") as HTMLInputElement;
+const pomodoroBreakModeSelect = document.getElementById("pomodoroBreakModeSelect") as HTMLSelectElement;
+const pomodoroBreakContexts = document.getElementById("pomodoroBreakContexts") as HTMLDivElement;
+
+// Strict Mode UI Elements
+const emergencyUnlockCheckbox = document.getElementById("emergencyUnlockCheckbox") as HTMLInputElement;
+const unlockPhraseInput = document.getElementById("unlockPhraseInput") as HTMLTextAreaElement;
+const unlockPhraseHint = document.getElementById("unlockPhraseHint") as HTMLSpanElement;
+const unlockCooldownInput = document.getElementById("unlockCooldownInput") as HTMLInputElement;
+
+// Schedule UI Elements
+const scheduleList = document.getElementById("scheduleList") as HTMLDivElement;
+const scheduleNameInput = document.getElementById("scheduleNameInput") as HTMLInputElement;
+const scheduleDays = document.getElementById("scheduleDays") as HTMLDivElement;
+const scheduleStartInput = document.getElementById("scheduleStartInput") as HTMLInputElement;
+const scheduleEndInput = document.getElementById("scheduleEndInput") as HTMLInputElement;
+const scheduleContexts = document.getElementById("scheduleContexts") as HTMLDivElement;
+const addScheduleBtn = document.getElementById("addScheduleBtn") as HTMLButtonElement;
+
+// Contexts checked for Pomodoro breaks, kept while the registry list is redrawn
+let breakContextSelection: string[] = [];
+const tfidfWeightInput = document.getElementById("tfidfWeightInput") as HTMLInputElement;
+const titleWeightInput = document.getElementById("titleWeightInput") as HTMLInputElement;
+const descriptionWeightInput = document.getElementById("descriptionWeightInput") as HTMLInputElement;
+const keywordsWeightInput = document.getElementById("keywordsWeightInput") as HTMLInputElement;
+const minConfidenceInput = document.getElementById("minConfidenceInput") as HTMLInputElement;
+const minMarginInput = document.getElementById("minMarginInput") as HTMLInputElement;
+const askWhenUncertainCheckbox = document.getElementById("askWhenUncertainCheckbox") as HTMLInputElement;
+const cacheTtlInput = document.getElementById("cacheTtlInput") as HTMLInputElement;
+const classifierDiagnostics = document.getElementById("classifierDiagnostics") as HTMLDivElement;
+const refreshDiagnosticsBtn = document.getElementById("refreshDiagnosticsBtn") as HTMLButtonElement;
 const saveBtn = document.getElementById("saveBtn") as HTMLButtonElement;
 const resetBtn = document.getElementById("resetBtn") as HTMLButtonElement;
 const subUrlOverridesList = document.getElementById("subUrlOverridesList") as HTMLDivElement;
@@ -15,11 +98,46 @@ const overrideUrlInput = document.getElementById("overrideUrlInput") as HTMLInpu
 const overrideContextSelect = document.getElementById("overrideContextSelect") as HTMLSelectElement;
 const addOverrideBtn = document.getElementById("addOverrideBtn") as HTMLButtonElement;
 
+// Keyword Dictionary UI Elements
+const keywordContextSelect = document.getElementById("keywordContextSelect") as HTMLSelectElement;
+const keywordList = document.getElementById("keywordList") as HTMLDivElement;
+const newKeywordInput = document.getElementById("newKeywordInput") as HTMLInputElement;
+const newKeywordWeightInput = document.getElementById("newKeywordWeightInput") as HTMLInputElement;
+const addKeywordBtn = document.getElementById("addKeywordBtn") as HTMLButtonElement;
+const keywordPreviewTabSelect = document.getElementById("keywordPreviewTabSelect") as HTMLSelectElement;
+const keywordPreview = document.getElementById("keywordPreview") as HTMLDivElement;
+const saveKeywordsBtn = document.getElementById("saveKeywordsBtn") as HTMLButtonElement;
+const exportKeywordsBtn = document.getElementById("exportKeywordsBtn") as HTMLButtonElement;
+const importKeywordsBtn = document.getElementById("importKeywordsBtn") as HTMLButtonElement;
+const importKeywordsInput = document.getElementById("importKeywordsInput") as HTMLInputElement;
+const resetKeywordsBtn = document.getElementById("resetKeywordsBtn") as HTMLButtonElement;
+
+// Domain Lists UI Elements
+const domainListsList = document.getElementById("domainListsList") as HTMLDivElement;
+const domainListFileInput = document.getElementById("domainListFileInput") as HTMLInputElement;
+const domainListFormatSelect = document.getElementById("domainListFormatSelect") as HTMLSelectElement;
+const domainListContextSelect = document.getElementById("domainListContextSelect") as HTMLSelectElement;
+const domainListPrecedenceSelect = document.getElementById("domainListPrecedenceSelect") as HTMLSelectElement;
+const importDomainListBtn = document.getElementById("importDomainListBtn") as HTMLButtonElement;
+
+// Context Registry UI Elements
+const contextRegistryList = document.getElementById("contextRegistryList") as HTMLDivElement;
+const newContextNameInput = document.getElementById("newContextNameInput") as HTMLInputElement;
+const newContextColorSelect = document.getElementById("newContextColorSelect") as HTMLSelectElement;
+const newContextParentSelect = document.getElementById("newContextParentSelect") as HTMLSelectElement;
+const addContextBtn = document.getElementById("addContextBtn") as HTMLButtonElement;
+
 // Parked Links UI Elements
 const parkedLinksList = document.getElementById("parkedLinksList") as HTMLDivElement;
 const releaseParkedBtn = document.getElementById("releaseParkedBtn") as HTMLButtonElement;
 const clearParkedBtn = document.getElementById("clearParkedBtn") as HTMLButtonElement;
 
+// Unsaved keyword dictionary being edited
+let keywordDraft: KeywordDictionary = {};
+let keywordPreviewTimer: number | null = null;
+const KEYWORD_PREVIEW_DELAY_MS = 300;
+const KEYWORD_PREVIEW_MATCHES = 15;
+
 // Default focus settings
 const DEFAULT_FOCUS_SETTINGS: FocusSettings = {
   enabled: true,
@@ -35,7 +153,11 @@ async function initializeOptions() {
   const storage = await getStorage([
     "extensionEnabled", 
     "autoGroupEnabled",
+    "tabGroupLevel",
     "focusSettings",
+    "classifierSettings",
+    "pomodoroSettings",
+    "strictModeSettings",
     "subUrlOverrides",
     "parkedLinks"
   ]);
@@ -45,21 +167,56 @@ async function initializeOptions() {
   
   // Auto-grouping enabled/disabled
   autoGroupCheckbox.checked = storage.autoGroupEnabled ?? false;
+  tabGroupLevelSelect.value = storage.tabGroupLevel ?? "parent";
   
   // Focus Settings
   const focusSettings = storage.focusSettings || DEFAULT_FOCUS_SETTINGS;
   notificationsCheckbox.checked = focusSettings.notificationsEnabled ?? true;
   switchThresholdInput.value = focusSettings.switchThreshold?.toString() || "3";
   timeWindowInput.value = focusSettings.timeWindowMinutes?.toString() || "30";
+  allowSecondaryCheckbox.checked = focusSettings.allowSecondaryContexts ?? false;
+  secondaryThresholdInput.value = (focusSettings.secondaryAllowThreshold ?? DEFAULT_SECONDARY_ALLOW_THRESHOLD).toString();
+  maxPauseInput.value = (focusSettings.maxPauseMinutes ?? 0).toString();
+  overrideBudgetInput.value = (focusSettings.overrideBudget ?? DEFAULT_OVERRIDE_BUDGET).toString();
+  
+  // Pomodoro Settings
+  displayPomodoroSettings({ ...DEFAULT_POMODORO_SETTINGS, ...storage.pomodoroSettings });
+  
+  // Strict Mode Settings
+  unlockPhraseHint.textContent = `(At least ${MIN_UNLOCK_PHRASE_LENGTH} characters, typed out in full to unlock)`;
+  displayStrictModeSettings({ ...DEFAULT_STRICT_MODE_SETTINGS, ...storage.strictModeSettings });
+  
+  // Classifier Settings
+  displayClassifierSettings({ ...DEFAULT_CLASSIFIER_SETTINGS, ...storage.classifierSettings });
+  
+  // Classifier diagnostics
+  await displayDiagnostics();
+  refreshDiagnosticsBtn.addEventListener("click", displayDiagnostics);
   
   // Add event listeners
   saveBtn.addEventListener("click", saveOptions);
   resetBtn.addEventListener("click", resetOptions);
   
+  // Load context registry
+  populateColorSelect(newContextColorSelect, "grey");
+  await displayContexts();
+  addContextBtn.addEventListener("click", handleAddContext);
+  
+  // Load keyword dictionary editor
+  await initializeKeywordEditor();
+  
   // Load URL overrides
   displayUrlOverrides(storage.subUrlOverrides || {});
   addOverrideBtn.addEventListener("click", addNewOverride);
   
+  // Load imported domain lists
+  await displayDomainLists();
+  importDomainListBtn.addEventListener("click", handleImportDomainList);
+  
+  // Load focus schedule
+  await displaySchedules();
+  addScheduleBtn.addEventListener("click", handleAddSchedule);
+  
   // Load parked links
   await displayParkedLinks(storage.parkedLinks || []);
   
@@ -78,16 +235,139 @@ function getDefaultFocusSettings(): FocusSettings {
     enabled: true,
     notificationsEnabled: true,
     switchThreshold: 3,
-    timeWindowMinutes: 30
+    timeWindowMinutes: 30,
+    allowSecondaryContexts: false,
+    secondaryAllowThreshold: DEFAULT_SECONDARY_ALLOW_THRESHOLD,
+    overrideBudget: DEFAULT_OVERRIDE_BUDGET
   };
 }
 
+function displayClassifierSettings(settings: ClassifierSettings) {
+  tfidfWeightInput.value = settings.tfidfWeight.toString();
+  titleWeightInput.value = settings.titleWeight.toString();
+  descriptionWeightInput.value = settings.descriptionWeight.toString();
+  keywordsWeightInput.value = settings.keywordsWeight.toString();
+  minConfidenceInput.value = settings.minConfidence.toString();
+  minMarginInput.value = settings.minMargin.toString();
+  askWhenUncertainCheckbox.checked = settings.askWhenUncertain;
+  cacheTtlInput.value = settings.cacheTtlMinutes.toString();
+}
+
+function displayPomodoroSettings(settings: PomodoroSettings) {
+  pomodoroWorkInput.value = settings.workMinutes.toString();
+  pomodoroBreakInput.value = settings.breakMinutes.toString();
+  pomodoroLongBreakInput.value = settings.longBreakMinutes.toString();
+  pomodoroCyclesInput.value = settings.cycles.toString();
+  pomodoroLongBreakEveryInput.value = settings.longBreakEvery.toString();
+  pomodoroBreakModeSelect.value = settings.breakMode;
+  breakContextSelection = [...settings.breakContexts];
+  pomodoroBreakContexts.querySelectorAll<HTMLInputElement>("input").forEach(input => {
+    input.checked = breakContextSelection.includes(input.value);
+  });
+}
+
+function displayStrictModeSettings(settings: StrictModeSettings) {
+  emergencyUnlockCheckbox.checked = settings.emergencyUnlock;
+  unlockPhraseInput.value = settings.unlockPhrase;
+  unlockCooldownInput.value = settings.unlockCooldownMinutes.toString();
+}
+
+// Checkboxes for the contexts breaks add in "widen" mode
+function syncBreakContexts(contexts: ContextDefinition[]) {
+  pomodoroBreakContexts.innerHTML = "";
+  
+  sortContextTree(contexts).forEach(context => {
+    const label = document.createElement("label");
+    const input = document.createElement("input");
+    input.type = "checkbox";
+    input.value = context.name;
+    input.checked = breakContextSelection.includes(context.name);
+    input.addEventListener("change", () => {
+      breakContextSelection = readBreakContexts();
+    });
+    label.appendChild(input);
+    label.appendChild(document.createTextNode(formatContextPath(context.name, contexts)));
+    pomodoroBreakContexts.appendChild(label);
+  });
+}
+
+function readBreakContexts(): string[] {
+  return Array.from(pomodoroBreakContexts.querySelectorAll<HTMLInputElement>("input:checked")).map(input => input.value);
+}
+
+async function displayDiagnostics() {
+  const stats = await chrome.runtime.sendMessage({ type: "GET_CLASSIFIER_DIAGNOSTICS" }) as ClassificationStats | undefined;
+  classifierDiagnostics.innerHTML = "";
+  if (!stats) {
+    classifierDiagnostics.textContent = "Diagnostics unavailable.";
+    return;
+  }
+  
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+  const rows = [
+    `Cache hits: ${stats.hits} of ${lookups} (${hitRate}%)`,
+    `Misses: ${stats.misses} (${stats.changed} content changed, ${stats.expired} expired)`,
+    `Cached pages: ${stats.entries}`,
+    `Classifications run: ${stats.classifications}, ${stats.averageMs.toFixed(1)} ms on average`,
+    `Estimated time saved: ${Math.round(stats.hits * stats.averageMs)} ms`,
+    `Since: ${new Date(stats.since).toLocaleString()}`
+  ];
+  for (const text of rows) {
+    const row = document.createElement("div");
+    row.textContent = text;
+    classifierDiagnostics.appendChild(row);
+  }
+}
+
+function readNonNegative(input: HTMLInputElement, fallback: number): number {
+  const value = parseFloat(input.value);
+  return isNaN(value) || value < 0 ? fallback : value;
+}
+
 async function saveOptions() {
   const focusSettings: FocusSettings = {
     enabled: true,
     notificationsEnabled: notificationsCheckbox.checked,
     switchThreshold: parseInt(switchThresholdInput.value) || 3,
-    timeWindowMinutes: parseInt(timeWindowInput.value) || 30
+    timeWindowMinutes: parseInt(timeWindowInput.value) || 30,
+    allowSecondaryContexts: allowSecondaryCheckbox.checked,
+    secondaryAllowThreshold: readNonNegative(secondaryThresholdInput, DEFAULT_SECONDARY_ALLOW_THRESHOLD),
+    maxPauseMinutes: Math.floor(readNonNegative(maxPauseInput, 0)),
+    overrideBudget: Math.floor(readNonNegative(overrideBudgetInput, DEFAULT_OVERRIDE_BUDGET))
+  };
+  
+  const pomodoroSettings: PomodoroSettings = {
+    workMinutes: parseInt(pomodoroWorkInput.value) || DEFAULT_POMODORO_SETTINGS.workMinutes,
+    breakMinutes: parseInt(pomodoroBreakInput.value) || DEFAULT_POMODORO_SETTINGS.breakMinutes,
+    longBreakMinutes: parseInt(pomodoroLongBreakInput.value) || DEFAULT_POMODORO_SETTINGS.longBreakMinutes,
+    cycles: parseInt(pomodoroCyclesInput.value) || DEFAULT_POMODORO_SETTINGS.cycles,
+    longBreakEvery: Math.floor(readNonNegative(pomodoroLongBreakEveryInput, DEFAULT_POMODORO_SETTINGS.longBreakEvery)),
+    breakMode: pomodoroBreakModeSelect.value as PomodoroSettings["breakMode"],
+    breakContexts: readBreakContexts()
+  };
+  
+  const strictModeSettings: StrictModeSettings = {
+    emergencyUnlock: emergencyUnlockCheckbox.checked,
+    unlockPhrase: unlockPhraseInput.value.trim(),
+    unlockCooldownMinutes: Math.floor(readNonNegative(unlockCooldownInput, DEFAULT_STRICT_MODE_SETTINGS.unlockCooldownMinutes))
+  };
+  try {
+    validateUnlockPhrase(strictModeSettings.unlockPhrase);
+  } catch (error) {
+    showNotification(error instanceof Error ? error.message : String(error), 3000);
+    return;
+  }
+  
+  const classifierSettings: ClassifierSettings = {
+    tfidfWeight: readNonNegative(tfidfWeightInput, DEFAULT_CLASSIFIER_SETTINGS.tfidfWeight),
+    titleWeight: readNonNegative(titleWeightInput, DEFAULT_CLASSIFIER_SETTINGS.titleWeight),
+    descriptionWeight: readNonNegative(descriptionWeightInput, DEFAULT_CLASSIFIER_SETTINGS.descriptionWeight),
+    keywordsWeight: readNonNegative(keywordsWeightInput, DEFAULT_CLASSIFIER_SETTINGS.keywordsWeight),
+    minConfidence: readNonNegative(minConfidenceInput, DEFAULT_CLASSIFIER_SETTINGS.minConfidence),
+    minMargin: readNonNegative(minMarginInput, DEFAULT_CLASSIFIER_SETTINGS.minMargin),
+    askWhenUncertain: askWhenUncertainCheckbox.checked,
+    cacheTtlMinutes: readNonNegative(cacheTtlInput, DEFAULT_CLASSIFIER_SETTINGS.cacheTtlMinutes)
   };
   
   // Collect URL Overrides from UI
@@ -105,7 +385,11 @@ async function saveOptions() {
   await setStorage({
     extensionEnabled: extensionEnabledCheckbox.checked,
     autoGroupEnabled: autoGroupCheckbox.checked,
+    tabGroupLevel: tabGroupLevelSelect.value as "parent" | "child",
     focusSettings,
+    classifierSettings,
+    pomodoroSettings,
+    strictModeSettings,
     subUrlOverrides
   });
   
@@ -136,10 +420,18 @@ async function resetOptions() {
   // Reset UI to defaults
   extensionEnabledCheckbox.checked = true;
   autoGroupCheckbox.checked = false;
+  tabGroupLevelSelect.value = "parent";
   const defaultSettings = getDefaultFocusSettings();
   notificationsCheckbox.checked = defaultSettings.notificationsEnabled;
   switchThresholdInput.value = defaultSettings.switchThreshold.toString();
   timeWindowInput.value = defaultSettings.timeWindowMinutes.toString();
+  allowSecondaryCheckbox.checked = false;
+  secondaryThresholdInput.value = DEFAULT_SECONDARY_ALLOW_THRESHOLD.toString();
+  maxPauseInput.value = "0";
+  overrideBudgetInput.value = DEFAULT_OVERRIDE_BUDGET.toString();
+  displayClassifierSettings(DEFAULT_CLASSIFIER_SETTINGS);
+  displayPomodoroSettings(DEFAULT_POMODORO_SETTINGS);
+  displayStrictModeSettings(DEFAULT_STRICT_MODE_SETTINGS);
   
   // Clear URL overrides
   subUrlOverridesList.innerHTML = '';
@@ -148,13 +440,139 @@ async function resetOptions() {
   await setStorage({
     extensionEnabled: true,
     autoGroupEnabled: false,
+    tabGroupLevel: "parent",
     focusSettings: defaultSettings,
+    classifierSettings: DEFAULT_CLASSIFIER_SETTINGS,
+    pomodoroSettings: DEFAULT_POMODORO_SETTINGS,
+    strictModeSettings: DEFAULT_STRICT_MODE_SETTINGS,
     subUrlOverrides: {}
   });
   
   showNotification("Options reset to defaults");
 }
 
+// Context Registry UI Functions
+async function displayContexts() {
+  const contexts = await getContexts();
+  contextRegistryList.innerHTML = '';
+  
+  sortContextTree(contexts).forEach(context => {
+    const card = document.createElement('div');
+    card.className = context.parent ? 'context-card sub-context' : 'context-card';
+    
+    const header = document.createElement('div');
+    header.className = 'context-card-header';
+    
+    const name = document.createElement('h3');
+    name.textContent = formatContextPath(context.name, contexts);
+    
+    const colorSelect = document.createElement('select');
+    populateColorSelect(colorSelect, context.color);
+    colorSelect.addEventListener('change', () => {
+      const color = colorSelect.value as chrome.tabGroups.ColorEnum;
+      runContextChange(async () => {
+        await recolorContext(context.name, color);
+        await updateContextGroups(context.name, context.name, color);
+      }, `${context.name} recolored`);
+    });
+    
+    const renameButton = document.createElement('button');
+    renameButton.textContent = 'Rename';
+    renameButton.addEventListener('click', () => {
+      const newName = prompt(`Rename "${context.name}" to:`, context.name);
+      if (!newName || newName.trim() === context.name) return;
+      runContextChange(async () => {
+        await renameContext(context.name, newName);
+        await updateContextGroups(context.name, newName.trim(), context.color);
+      }, `${context.name} renamed to ${newName.trim()}`);
+    });
+    
+    const deleteButton = document.createElement('button');
+    deleteButton.innerHTML = '&times;';
+    deleteButton.className = 'link-remove';
+    deleteButton.addEventListener('click', () => {
+      const children = contexts.filter(c => c.parent === context.name).map(c => c.name);
+      const message = children.length > 0
+        ? `Delete "${context.name}"? Domains and overrides mapped to it will be removed, and ${children.join(', ')} will become top-level contexts.`
+        : `Delete "${context.name}"? Domains and overrides mapped to it will be removed.`;
+      if (!confirm(message)) return;
+      runContextChange(() => deleteContext(context.name), `${context.name} deleted`);
+    });
+    
+    header.appendChild(name);
+    header.appendChild(colorSelect);
+    header.appendChild(renameButton);
+    header.appendChild(deleteButton);
+    card.appendChild(header);
+    
+    if (context.description) {
+      const description = document.createElement('p');
+      description.textContent = context.description;
+      card.appendChild(description);
+    }
+    
+    contextRegistryList.appendChild(card);
+  });
+  
+  // Only top-level contexts can have sub-contexts
+  const parentChoice = newContextParentSelect.value;
+  newContextParentSelect.innerHTML = '';
+  newContextParentSelect.add(new Option('No parent (top level)', ''));
+  contexts.filter(c => !c.parent).forEach(c => newContextParentSelect.add(new Option(`Under ${c.name}`, c.name)));
+  newContextParentSelect.value = contexts.some(c => c.name === parentChoice && !c.parent) ? parentChoice : '';
+  
+  // Keep the context pickers in sync with the registry
+  syncContextSelect(overrideContextSelect, contexts);
+  syncContextSelect(domainListContextSelect, contexts);
+  syncContextSelect(keywordContextSelect, contexts);
+  syncBreakContexts(contexts);
+  syncScheduleContexts(contexts);
+}
+
+function syncContextSelect(select: HTMLSelectElement, contexts: ContextDefinition[], selected = select.value) {
+  select.innerHTML = '';
+  sortContextTree(contexts).forEach(context => {
+    select.add(new Option(formatContextPath(context.name, contexts), context.name));
+  });
+  if (contexts.some(c => c.name === selected)) {
+    select.value = selected;
+  }
+}
+
+function populateColorSelect(select: HTMLSelectElement, selected: chrome.tabGroups.ColorEnum) {
+  select.innerHTML = '';
+  CONTEXT_COLORS.forEach(color => {
+    select.add(new Option(color, color, false, color === selected));
+  });
+}
+
+async function handleAddContext() {
+  const name = newContextNameInput.value;
+  const color = newContextColorSelect.value as chrome.tabGroups.ColorEnum;
+  const parent = newContextParentSelect.value || undefined;
+  await runContextChange(() => createContext(name, color, undefined, parent), `${name.trim()} added`);
+  newContextNameInput.value = '';
+}
+
+async function runContextChange(change: () => Promise<void>, successMessage: string) {
+  try {
+    await change();
+    showNotification(successMessage);
+  } catch (error) {
+    showNotification(error instanceof Error ? error.message : String(error), 3000);
+  }
+  
+  await displayContexts();
+  const { subUrlOverrides } = await getStorage(["subUrlOverrides"]);
+  displayUrlOverrides(subUrlOverrides || {});
+  await displayDomainLists();
+  await displaySchedules();
+  
+  // Renames and deletes migrate the stored dictionary, so start the draft over from it
+  keywordDraft = await getKeywordDictionary();
+  displayKeywords();
+}
+
 // URL Overrides UI Functions
 function displayUrlOverrides(overrides: Record<string, string>) {
   subUrlOverridesList.innerHTML = '';
@@ -173,7 +591,7 @@ function displayUrlOverrides(overrides: Record<string, string>) {
 }
 
 function addNewOverride() {
-  const url = overrideUrlInput.value.trim();
+  const url = normalizeOverridePrefix(overrideUrlInput.value);
   const context = overrideContextSelect.value;
   
   if (!url) {
@@ -211,6 +629,409 @@ function addOverrideItem(url: string, context: string) {
   subUrlOverridesList.appendChild(item);
 }
 
+// Keyword Dictionary UI Functions
+async function initializeKeywordEditor() {
+  keywordDraft = await getKeywordDictionary();
+  displayKeywords();
+  
+  keywordContextSelect.addEventListener("change", displayKeywords);
+  addKeywordBtn.addEventListener("click", handleAddKeyword);
+  saveKeywordsBtn.addEventListener("click", handleSaveKeywords);
+  exportKeywordsBtn.addEventListener("click", handleExportKeywords);
+  importKeywordsBtn.addEventListener("click", () => importKeywordsInput.click());
+  importKeywordsInput.addEventListener("change", handleImportKeywords);
+  resetKeywordsBtn.addEventListener("click", handleResetKeywords);
+  keywordPreviewTabSelect.addEventListener("change", () => scheduleKeywordPreview(0));
+  
+  await populatePreviewTabs();
+}
+
+function displayKeywords() {
+  const context = keywordContextSelect.value;
+  const keywords = keywordDraft[context] || {};
+  keywordList.innerHTML = '';
+  
+  const entries = Object.entries(keywords).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  if (entries.length === 0) {
+    const emptyMsg = document.createElement('div');
+    emptyMsg.className = 'empty-state';
+    emptyMsg.textContent = `No keywords for ${context || 'this context'} yet.`;
+    keywordList.appendChild(emptyMsg);
+  }
+  
+  entries.forEach(([keyword, weight]) => {
+    const item = document.createElement('div');
+    item.className = 'override-item';
+    
+    const term = document.createElement('span');
+    term.textContent = keyword;
+    
+    const weightInput = document.createElement('input');
+    weightInput.type = 'number';
+    weightInput.min = '0';
+    weightInput.max = '1';
+    weightInput.step = '0.1';
+    weightInput.value = weight.toString();
+    weightInput.addEventListener('change', () => {
+      const value = parseFloat(weightInput.value);
+      if (isNaN(value)) return;
+      keywordDraft[context][keyword] = clampKeywordWeight(value);
+      weightInput.value = keywordDraft[context][keyword].toString();
+      scheduleKeywordPreview();
+    });
+    
+    const deleteButton = document.createElement('button');
+    deleteButton.innerHTML = '&times;';
+    deleteButton.className = 'link-remove';
+    deleteButton.addEventListener('click', () => {
+      delete keywordDraft[context][keyword];
+      item.remove();
+      scheduleKeywordPreview();
+    });
+    
+    item.appendChild(term);
+    item.appendChild(weightInput);
+    item.appendChild(deleteButton);
+    keywordList.appendChild(item);
+  });
+  
+  scheduleKeywordPreview();
+}
+
+function handleAddKeyword() {
+  const context = keywordContextSelect.value;
+  const keyword = normalizeKeyword(newKeywordInput.value);
+  const weight = parseFloat(newKeywordWeightInput.value);
+  
+  if (!context || !keyword) {
+    showNotification("Please enter a keyword or phrase", 3000);
+    return;
+  }
+  if (isNaN(weight)) {
+    showNotification("Please enter a weight between 0 and 1", 3000);
+    return;
+  }
+  
+  keywordDraft[context] = { ...keywordDraft[context], [keyword]: clampKeywordWeight(weight) };
+  newKeywordInput.value = '';
+  displayKeywords();
+}
+
+async function handleSaveKeywords() {
+  await saveKeywordDictionary(keywordDraft);
+  showNotification("Keyword dictionary saved");
+  scheduleKeywordPreview(0);
+}
+
+function handleExportKeywords() {
+  const blob = new Blob([exportKeywordDictionary(keywordDraft)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'context-focus-keywords.json';
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+async function handleImportKeywords() {
+  const file = importKeywordsInput.files?.[0];
+  importKeywordsInput.value = '';
+  if (!file) return;
+  
+  try {
+    const imported = parseKeywordDictionary(await file.text());
+    const contextNames = (await getContexts()).map(c => c.name);
+    const skipped = Object.keys(imported).filter(context => !contextNames.includes(context));
+    
+    // Imported weights win over the draft's; keywords only in the draft stay
+    let count = 0;
+    for (const [context, keywords] of Object.entries(imported)) {
+      if (!contextNames.includes(context)) continue;
+      keywordDraft[context] = { ...keywordDraft[context], ...keywords };
+      count += Object.keys(keywords).length;
+    }
+    
+    displayKeywords();
+    showNotification(`Imported ${count} keywords, save to use them` +
+      (skipped.length > 0 ? ` (skipped unknown contexts: ${skipped.join(", ")})` : ""), 4000);
+  } catch (error) {
+    showNotification(error instanceof Error ? error.message : String(error), 3000);
+  }
+}
+
+async function handleResetKeywords() {
+  if (!confirm("Replace your keyword dictionary with the built-in one?")) return;
+  keywordDraft = await resetKeywordDictionary();
+  displayKeywords();
+  showNotification("Keyword dictionary reset");
+}
+
+/**
+ * List open web pages to preview against, most recently used first
+ */
+async function populatePreviewTabs() {
+  const tabs = (await chrome.tabs.query({}))
+    .filter(tab => tab.id != null && /^https?:/.test(tab.url || ''))
+    .sort((a, b) => lastAccessed(b) - lastAccessed(a));
+  
+  keywordPreviewTabSelect.innerHTML = '';
+  tabs.forEach(tab => {
+    keywordPreviewTabSelect.add(new Option(tab.title || tab.url || '', String(tab.id)));
+  });
+  
+  if (tabs.length === 0) {
+    keywordPreview.textContent = "Open a web page to preview keyword scores against it.";
+    return;
+  }
+  scheduleKeywordPreview(0);
+}
+
+function lastAccessed(tab: chrome.tabs.Tab): number {
+  return (tab as chrome.tabs.Tab & { lastAccessed?: number }).lastAccessed || 0;
+}
+
+function scheduleKeywordPreview(delay = KEYWORD_PREVIEW_DELAY_MS) {
+  if (keywordPreviewTimer) {
+    window.clearTimeout(keywordPreviewTimer);
+  }
+  keywordPreviewTimer = window.setTimeout(updateKeywordPreview, delay);
+}
+
+async function updateKeywordPreview() {
+  keywordPreviewTimer = null;
+  const tabId = parseInt(keywordPreviewTabSelect.value, 10);
+  if (isNaN(tabId)) return;
+  
+  const preview = await chrome.runtime.sendMessage({
+    type: "PREVIEW_KEYWORDS",
+    tabId,
+    keywords: keywordDraft
+  }) as KeywordPreview | null;
+  
+  keywordPreview.innerHTML = '';
+  if (!preview) {
+    keywordPreview.textContent = "Couldn't read this tab. Reload it and try again.";
+    return;
+  }
+  
+  const table = document.createElement('table');
+  table.className = 'keyword-preview-table';
+  const header = table.createTHead().insertRow();
+  ['Context', 'Saved', 'Draft', 'Change'].forEach(label => {
+    const th = document.createElement('th');
+    th.textContent = label;
+    header.appendChild(th);
+  });
+  
+  const body = table.createTBody();
+  const contexts = Array.from(new Set([...Object.keys(preview.draft), ...Object.keys(preview.saved)]))
+    .sort((a, b) => (preview.draft[b] || 0) - (preview.draft[a] || 0));
+  contexts.forEach(context => {
+    const saved = preview.saved[context] || 0;
+    const draft = preview.draft[context] || 0;
+    const change = draft - saved;
+    const row = body.insertRow();
+    [context, saved.toFixed(2), draft.toFixed(2), change === 0 ? '–' : `${change > 0 ? '+' : ''}${change.toFixed(2)}`]
+      .forEach(text => {
+        row.insertCell().textContent = text;
+      });
+  });
+  keywordPreview.appendChild(table);
+  
+  const matches = preview.matches.slice(0, KEYWORD_PREVIEW_MATCHES);
+  const summary = document.createElement('p');
+  summary.textContent = matches.length > 0
+    ? `Matched (${preview.language}): ` + matches.map(m => `${m.term} → ${m.context} ×${m.count}`).join(', ')
+    : `No keywords matched (${preview.language}).`;
+  keywordPreview.appendChild(summary);
+}
+
+// Domain Lists UI Functions
+async function displayDomainLists() {
+  const [lists, contexts] = await Promise.all([getDomainLists(), getContexts()]);
+  domainListsList.innerHTML = '';
+  
+  if (lists.length === 0) {
+    const emptyMsg = document.createElement('div');
+    emptyMsg.className = 'empty-state';
+    emptyMsg.textContent = 'No domain lists imported yet.';
+    domainListsList.appendChild(emptyMsg);
+    return;
+  }
+  
+  lists.forEach(list => domainListsList.appendChild(createDomainListItem(list, contexts)));
+}
+
+function createDomainListItem(list: DomainList, contexts: ContextDefinition[]): HTMLDivElement {
+  const item = document.createElement('div');
+  item.className = 'override-item';
+  
+  const info = document.createElement('span');
+  info.textContent = `${list.name} (${Object.keys(list.entries).length} domains, ${list.format})`;
+  
+  const contextSelect = document.createElement('select');
+  syncContextSelect(contextSelect, contexts, list.context);
+  if (!contexts.some(c => c.name === list.context)) {
+    contextSelect.add(new Option('List categories only', ''), 0);
+    contextSelect.value = '';
+  }
+  contextSelect.addEventListener('change', () => {
+    runDomainListChange(() => updateDomainList(list.id, { context: contextSelect.value }),
+      `${list.name} now maps to ${contextSelect.value}`);
+  });
+  
+  const precedenceSelect = document.createElement('select');
+  precedenceSelect.add(new Option('Below my corrections', 'belowUser'));
+  precedenceSelect.add(new Option('Above my corrections', 'aboveUser'));
+  precedenceSelect.value = list.precedence;
+  precedenceSelect.addEventListener('change', () => {
+    const precedence = precedenceSelect.value as DomainList["precedence"];
+    runDomainListChange(() => updateDomainList(list.id, { precedence }), `${list.name} updated`);
+  });
+  
+  const deleteButton = document.createElement('button');
+  deleteButton.innerHTML = '&times;';
+  deleteButton.className = 'link-remove';
+  deleteButton.addEventListener('click', () => {
+    if (!confirm(`Remove the list "${list.name}"?`)) return;
+    runDomainListChange(() => removeDomainList(list.id), `${list.name} removed`);
+  });
+  
+  item.appendChild(info);
+  item.appendChild(contextSelect);
+  item.appendChild(precedenceSelect);
+  item.appendChild(deleteButton);
+  return item;
+}
+
+async function handleImportDomainList() {
+  const file = domainListFileInput.files?.[0];
+  if (!file) {
+    showNotification("Please choose a list file", 3000);
+    return;
+  }
+  
+  await runDomainListChange(async () => {
+    const text = await file.text();
+    const format = domainListFormatSelect.value === 'auto'
+      ? detectDomainListFormat(text, file.name)
+      : domainListFormatSelect.value as DomainListFormat;
+    const precedence = domainListPrecedenceSelect.value as DomainList["precedence"];
+    
+    const name = file.name.replace(/\.[^.]+$/, '');
+    const { list, skipped } = await importDomainList(name, text, format, domainListContextSelect.value, precedence);
+    domainListFileInput.value = '';
+    return `Imported ${Object.keys(list.entries).length} domains from ${list.name}` +
+      (skipped > 0 ? ` (${skipped} lines skipped)` : '');
+  });
+}
+
+async function runDomainListChange(change: () => Promise<string | void>, successMessage?: string) {
+  try {
+    const message = await change();
+    showNotification(message || successMessage || "Domain lists updated", 3000);
+  } catch (error) {
+    showNotification(error instanceof Error ? error.message : String(error), 3000);
+  }
+  
+  await displayDomainLists();
+}
+
+// Schedule UI Functions
+async function displaySchedules() {
+  const [schedules, contexts] = await Promise.all([getSchedules(), getContexts()]);
+  scheduleList.innerHTML = '';
+  
+  if (schedules.length === 0) {
+    const emptyMsg = document.createElement('div');
+    emptyMsg.className = 'empty-state';
+    emptyMsg.textContent = 'No scheduled sessions yet.';
+    scheduleList.appendChild(emptyMsg);
+    return;
+  }
+  
+  schedules.forEach(schedule => scheduleList.appendChild(createScheduleItem(schedule, contexts)));
+}
+
+function createScheduleItem(schedule: FocusSchedule, contexts: ContextDefinition[]): HTMLDivElement {
+  const item = document.createElement('div');
+  item.className = 'override-item';
+  
+  const enabledLabel = document.createElement('label');
+  enabledLabel.style.marginBottom = '0';
+  const enabledCheckbox = document.createElement('input');
+  enabledCheckbox.type = 'checkbox';
+  enabledCheckbox.checked = schedule.enabled;
+  enabledCheckbox.addEventListener('change', () => {
+    runScheduleChange(() => setScheduleEnabled(schedule.id, enabledCheckbox.checked),
+      `${schedule.name} ${enabledCheckbox.checked ? 'enabled' : 'paused'}`);
+  });
+  enabledLabel.appendChild(enabledCheckbox);
+  enabledLabel.appendChild(document.createTextNode(`${schedule.name}: ${describeSchedule(schedule)}`));
+  
+  const allowed = document.createElement('span');
+  allowed.textContent = 'Allows ' + schedule.allowedContexts.map(name => formatContextPath(name, contexts)).join(', ');
+  
+  const deleteButton = document.createElement('button');
+  deleteButton.innerHTML = '&times;';
+  deleteButton.className = 'link-remove';
+  deleteButton.addEventListener('click', () => {
+    if (!confirm(`Remove the schedule "${schedule.name}"?`)) return;
+    runScheduleChange(() => removeSchedule(schedule.id), `${schedule.name} removed`);
+  });
+  
+  item.appendChild(enabledLabel);
+  item.appendChild(allowed);
+  item.appendChild(deleteButton);
+  return item;
+}
+
+// Checkboxes for the contexts a new schedule entry allows
+function syncScheduleContexts(contexts: ContextDefinition[]) {
+  const selection = readCheckedValues(scheduleContexts);
+  scheduleContexts.innerHTML = '';
+  
+  sortContextTree(contexts).forEach(context => {
+    const label = document.createElement('label');
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.value = context.name;
+    input.checked = selection.includes(context.name);
+    label.appendChild(input);
+    label.appendChild(document.createTextNode(formatContextPath(context.name, contexts)));
+    scheduleContexts.appendChild(label);
+  });
+}
+
+function readCheckedValues(container: HTMLElement): string[] {
+  return Array.from(container.querySelectorAll<HTMLInputElement>('input:checked')).map(input => input.value);
+}
+
+async function handleAddSchedule() {
+  await runScheduleChange(async () => {
+    const schedule = await addSchedule({
+      name: scheduleNameInput.value,
+      days: readCheckedValues(scheduleDays).map(Number),
+      start: scheduleStartInput.value,
+      end: scheduleEndInput.value,
+      allowedContexts: readCheckedValues(scheduleContexts)
+    });
+    scheduleNameInput.value = '';
+    return `${schedule.name} scheduled`;
+  });
+}
+
+async function runScheduleChange(change: () => Promise<string | void>, successMessage?: string) {
+  try {
+    const message = await change();
+    showNotification(message || successMessage || "Schedule updated", 3000);
+  } catch (error) {
+    showNotification(error instanceof Error ? error.message : String(error), 3000);
+  }
+  
+  await displaySchedules();
+}
+
 // Parked Links UI Functions
 async function displayParkedLinks(parkedLinks: Array<{url: string, title?: string, timestamp: number}>) {
   if (!parkedLinksList) return;
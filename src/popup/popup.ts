@@ -6,45 +6,61 @@
  */
 
 import { getFocusState } from "../api/storageApi";
+import { formatContextPath, getContexts, getParentContext, isContextAllowed } from "../api/contextsApi";
+import { getPomodoroSettings } from "../api/pomodoroApi";
+import { describePomodoroPhase } from "../lib/pomodoro";
+import { isStrictSession } from "../lib/strictMode";
+import { getActiveAllowances } from "../lib/allowances";
+import { ClassificationReport, ContextDefinition, FocusState } from "../types/index";
 
 // DOM Elements
 const inactiveUI = document.getElementById('inactiveUI') as HTMLElement;
 const activeUI = document.getElementById('activeUI') as HTMLElement;
 const contextList = document.getElementById('contextList') as HTMLElement;
 const durationInput = document.getElementById('duration') as HTMLInputElement;
+const durationLabel = document.getElementById('durationLabel') as HTMLElement;
+const pomodoroCheckbox = document.getElementById('pomodoroCheckbox') as HTMLInputElement;
+const pomodoroSummary = document.getElementById('pomodoroSummary') as HTMLElement;
+const strictCheckbox = document.getElementById('strictCheckbox') as HTMLInputElement;
 const startBtn = document.getElementById('startBtn') as HTMLButtonElement;
+const pauseBtn = document.getElementById('pauseBtn') as HTMLButtonElement;
 const endBtn = document.getElementById('endBtn') as HTMLButtonElement;
 const allowedTags = document.getElementById('allowedTags') as HTMLElement;
 const countdown = document.getElementById('countdown') as HTMLElement;
+const allowanceInfo = document.getElementById('allowanceInfo') as HTMLElement;
+const strictStatus = document.getElementById('strictStatus') as HTMLElement;
+const unlockBtn = document.getElementById('unlockBtn') as HTMLButtonElement;
+const unlockForm = document.getElementById('unlockForm') as HTMLElement;
+const unlockPhrase = document.getElementById('unlockPhrase') as HTMLElement;
+const unlockInput = document.getElementById('unlockInput') as HTMLTextAreaElement;
+const unlockSubmitBtn = document.getElementById('unlockSubmitBtn') as HTMLButtonElement;
+const explainLink = document.getElementById('explainLink') as HTMLAnchorElement;
+const contextDistribution = document.getElementById('contextDistribution') as HTMLElement;
 
-// Available contexts
-const AVAILABLE_CONTEXTS = [
-  'Work',
-  'Development',
-  'Research',
-  'Learning',
-  'Entertainment',
-  'Social', 
-  'Shopping',
-  'News'
-];
+// Contexts listed in the current tab's score distribution
+const MAX_DISTRIBUTION_ROWS = 8;
 
 // Initialize the popup
 async function initPopup() {
+  const contexts = await getContexts();
+  
   // Render context checkboxes
-  renderContextList();
+  renderContextList(contexts);
   
   // Check current focus state
   const focusState = await getFocusState();
   
   if (focusState.active) {
     // Show active UI
-    renderActive(focusState);
+    renderActive(focusState, contexts);
   } else {
     // Show inactive UI
-    renderInactive();
+    await renderInactive();
   }
   
+  // Score distribution and classification breakdown of the current tab
+  await renderCurrentTab(focusState, contexts);
+  
   // Setup event listeners
   setupEventListeners();
   
@@ -52,68 +68,247 @@ async function initPopup() {
   startPolling();
 }
 
-// Render the list of contexts as checkboxes
-function renderContextList() {
+// Render the list of contexts as checkboxes, with sub-contexts under their parent.
+// Checking a parent checks its sub-contexts; unchecking one of them excludes it.
+function renderContextList(contexts: ContextDefinition[]) {
   contextList.innerHTML = '';
   
-  AVAILABLE_CONTEXTS.forEach(context => {
-    const wrapper = document.createElement('div');
-    wrapper.className = 'context-checkbox';
+  // Sub-contexts whose parent is gone are listed at the top level
+  const topLevel = contexts.filter(context => !context.parent || !contexts.some(c => c.name === context.parent));
+  topLevel.forEach(context => {
+    const group = document.createElement('div');
+    group.className = 'context-group';
     
-    const input = document.createElement('input');
-    input.type = 'checkbox';
-    input.value = context;
-    input.id = `context-${context}`;
-    input.className = 'context-checkbox-input';
+    const parentInput = createContextCheckbox(group, context.name);
+    parentInput.dataset.level = 'parent';
     
-    const label = document.createElement('label');
-    label.textContent = context;
-    label.htmlFor = `context-${context}`;
+    const children = contexts.filter(c => c.parent === context.name);
+    if (children.length > 0) {
+      const subList = document.createElement('div');
+      subList.className = 'sub-contexts';
+      const childInputs = children.map(child => {
+        const input = createContextCheckbox(subList, child.name);
+        input.dataset.parent = context.name;
+        return input;
+      });
+      group.appendChild(subList);
+      
+      parentInput.addEventListener('change', () => {
+        childInputs.forEach(input => { input.checked = parentInput.checked; });
+      });
+    }
     
-    wrapper.appendChild(input);
-    wrapper.appendChild(label);
-    contextList.appendChild(wrapper);
+    contextList.appendChild(group);
   });
 }
 
+function createContextCheckbox(container: HTMLElement, context: string): HTMLInputElement {
+  const wrapper = document.createElement('div');
+  wrapper.className = 'context-checkbox';
+  
+  const input = document.createElement('input');
+  input.type = 'checkbox';
+  input.value = context;
+  input.id = `context-${context.replace(/\s+/g, '-')}`;
+  input.className = 'context-checkbox-input';
+  
+  const label = document.createElement('label');
+  label.textContent = context;
+  label.htmlFor = input.id;
+  
+  wrapper.appendChild(input);
+  wrapper.appendChild(label);
+  container.appendChild(wrapper);
+  return input;
+}
+
+// Turn the checkboxes into allowed contexts plus sub-contexts excluded from an allowed parent
+function readContextSelection(): { allowedContexts: string[], excludedContexts: string[] } {
+  const allowedContexts: string[] = [];
+  const excludedContexts: string[] = [];
+  const inputs = Array.from(document.querySelectorAll<HTMLInputElement>('.context-checkbox-input'));
+  const checked = new Set(inputs.filter(input => input.checked).map(input => input.value));
+  
+  inputs.forEach(input => {
+    const parent = input.dataset.parent;
+    if (parent && checked.has(parent)) {
+      if (!input.checked) excludedContexts.push(input.value);
+    } else if (input.checked) {
+      allowedContexts.push(input.value);
+    }
+  });
+  return { allowedContexts, excludedContexts };
+}
+
+// Show how the active tab scored and a "Why is this page X?" link, if it was classified
+async function renderCurrentTab(focusState: FocusState, contexts: ContextDefinition[]) {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+  if (tab?.id == null || !tab.url?.startsWith('http')) return;
+  
+  const report: ClassificationReport | undefined = await chrome.runtime.sendMessage({
+    type: 'GET_CLASSIFICATION_REPORT',
+    tabId: tab.id,
+    url: tab.url
+  });
+  if (report?.result?.features) {
+    renderDistribution(report.result.features, focusState, contexts);
+  }
+  
+  const context = report?.effectiveContext ?? report?.result?.primaryContext;
+  if (!context) return;
+  
+  explainLink.textContent = `Why is this page ${context}?`;
+  explainLink.hidden = false;
+  explainLink.addEventListener('click', (event) => {
+    event.preventDefault();
+    const params = new URLSearchParams({ tabId: String(tab.id), url: tab.url! });
+    chrome.tabs.create({ url: chrome.runtime.getURL(`explain.html?${params}`) });
+  });
+}
+
+// Show every context the page scored for, as bars relative to the top score.
+// During a focus session, allowed contexts are highlighted.
+function renderDistribution(scores: Record<string, number>, focusState: FocusState, contexts: ContextDefinition[]) {
+  const rows = Object.entries(scores)
+    .filter(([_, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_DISTRIBUTION_ROWS);
+  if (rows.length === 0) return;
+  
+  const top = rows[0][1];
+  contextDistribution.innerHTML = '';
+  
+  const heading = document.createElement('p');
+  heading.textContent = 'This page scores for:';
+  contextDistribution.appendChild(heading);
+  
+  rows.forEach(([context, score]) => {
+    const row = document.createElement('div');
+    row.className = 'distribution-row';
+    if (focusState.active && isContextAllowed(context, focusState, contexts)) {
+      row.classList.add('allowed');
+    }
+    
+    const name = document.createElement('span');
+    name.className = 'distribution-name';
+    name.textContent = formatContextPath(context, contexts);
+    
+    const bar = document.createElement('span');
+    bar.className = 'distribution-bar';
+    bar.style.width = `${Math.round((score / top) * 100)}%`;
+    
+    const value = document.createElement('span');
+    value.className = 'distribution-score';
+    value.textContent = score.toFixed(2);
+    
+    const track = document.createElement('span');
+    track.className = 'distribution-track';
+    track.appendChild(bar);
+    
+    row.appendChild(name);
+    row.appendChild(track);
+    row.appendChild(value);
+    contextDistribution.appendChild(row);
+  });
+  
+  contextDistribution.hidden = false;
+}
+
 // Show the inactive UI (start focus)
-function renderInactive() {
+async function renderInactive() {
   inactiveUI.hidden = false;
   activeUI.hidden = true;
+  
+  const pomodoro = await getPomodoroSettings();
+  pomodoroSummary.textContent = `(${pomodoro.cycles} × ${pomodoro.workMinutes} min, ${pomodoro.breakMinutes} min breaks)`;
 }
 
 // Show the active UI (end focus)
-function renderActive(focusState: any) {
+function renderActive(focusState: FocusState, contexts: ContextDefinition[]) {
   inactiveUI.hidden = true;
   activeUI.hidden = false;
   
-  // Show allowed contexts
-  allowedTags.textContent = focusState.allowedContexts.join(', ');
+  // Show allowed contexts, with any sub-contexts left out of them
+  const excluded = focusState.excludedContexts ?? [];
+  allowedTags.textContent = focusState.allowedContexts.map(context => {
+    const except = excluded.filter(child => getParentContext(child, contexts) === context);
+    const label = formatContextPath(context, contexts);
+    return except.length > 0 ? `${label} (except ${except.join(', ')})` : label;
+  }).join(', ');
+  
+  pauseBtn.textContent = focusState.pausedAt ? '▶ Resume' : '⏸ Pause';
+  unlockPhrase.textContent = focusState.strict?.unlockPhrase || '';
+  updateStrictControls(focusState);
+  
+  // Sites let through from the blocked page, and how many more can be
+  const allowances = getActiveAllowances(focusState);
+  allowanceInfo.hidden = allowances.length === 0;
+  allowanceInfo.textContent = allowances
+    .map(a => `${a.domain} allowed until ${new Date(a.expiresAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`)
+    .join(', ') + ` (${focusState.overridesLeft ?? 0} overrides left)`;
   
   // Show countdown if there's a timer
   updateCountdown(focusState);
 }
 
+// Strict sessions hide Pause and End until an emergency unlock has come through
+function updateStrictControls(focusState: FocusState) {
+  const strict = isStrictSession(focusState);
+  pauseBtn.hidden = strict;
+  endBtn.hidden = strict;
+  strictStatus.hidden = !strict;
+  if (!strict) {
+    unlockBtn.hidden = true;
+    unlockForm.hidden = true;
+    return;
+  }
+  
+  const unlockAt = focusState.strict?.unlockAt;
+  strictStatus.textContent = unlockAt
+    ? `🔒 Strict session, unlocks in ${formatMinutes(Math.max(0, unlockAt - Date.now()))}`
+    : '🔒 Strict session';
+  if (unlockAt) unlockForm.hidden = true;
+  unlockBtn.hidden = !focusState.strict?.unlockPhrase || !!unlockAt || !unlockForm.hidden;
+}
+
 // Update the countdown timer
-function updateCountdown(focusState: any) {
-  if (!focusState.endTime) {
-    countdown.textContent = 'No time limit';
+function updateCountdown(focusState: FocusState) {
+  // A paused session's time is frozen at the moment it was paused
+  const timeLeft = describeTimeLeft(focusState, focusState.pausedAt ?? Date.now());
+  if (!focusState.pausedAt) {
+    countdown.textContent = timeLeft;
     return;
   }
   
-  const now = Date.now();
+  const resumesIn = focusState.resumeAt ? `, resumes in ${formatMinutes(Math.max(0, focusState.resumeAt - Date.now()))}` : '';
+  countdown.textContent = `⏸ Paused${resumesIn} (${timeLeft})`;
+}
+
+function describeTimeLeft(focusState: FocusState, now: number): string {
+  // Pomodoro sessions count down the current phase
+  if (focusState.pomodoro) {
+    const phaseLeft = Math.max(0, focusState.pomodoro.phaseEndTime - now);
+    return `${describePomodoroPhase(focusState.pomodoro)}: ${formatMinutes(phaseLeft)} remaining`;
+  }
+  
+  if (!focusState.endTime) {
+    return 'No time limit';
+  }
+  
   const timeLeft = Math.max(0, focusState.endTime - now);
   
   if (timeLeft <= 0) {
-    countdown.textContent = 'Time expired';
-    return;
+    return 'Time expired';
   }
   
-  // Format as MM:SS
-  const minutes = Math.floor(timeLeft / 60000);
-  const seconds = Math.floor((timeLeft % 60000) / 1000);
-  
-  countdown.textContent = `${minutes}:${seconds.toString().padStart(2, '0')} remaining`;
+  return `${formatMinutes(timeLeft)} remaining`;
+}
+
+// Format milliseconds as MM:SS
+function formatMinutes(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
 }
 
 // Setup event listeners
@@ -121,30 +316,79 @@ function setupEventListeners() {
   // Start Focus button
   startBtn.addEventListener('click', () => {
     // Get selected contexts
-    const selectedCheckboxes = document.querySelectorAll<HTMLInputElement>('.context-checkbox-input:checked');
-    const allowedContexts = Array.from(selectedCheckboxes).map(cb => cb.value);
+    const { allowedContexts, excludedContexts } = readContextSelection();
     
     if (allowedContexts.length === 0) {
       alert('Please select at least one context to focus on');
       return;
     }
     
-    // Get duration (if any)
+    // Get duration (if any); Pomodoro sessions take their length from the cycles
     const duration = durationInput.value ? parseInt(durationInput.value, 10) : undefined;
+    const pomodoro = pomodoroCheckbox.checked;
+    const strict = strictCheckbox.checked;
+    
+    if (strict && !pomodoro && !duration) {
+      alert('A strict session needs a duration');
+      return;
+    }
     
     // Start focus session with allowed contexts directly
     chrome.runtime.sendMessage({
       type: 'START_FOCUS_SESSION',
       payload: {
         allowedContexts: allowedContexts,
-        durationMinutes: duration
+        excludedContexts: excludedContexts,
+        durationMinutes: pomodoro ? undefined : duration,
+        pomodoro,
+        strict
+      }
+    }, (response) => {
+      if (response && !response.success) {
+        alert(response.error);
+        return;
       }
-    }, () => {
       // Refresh the popup after starting
       window.location.reload();
     });
   });
   
+  // Pomodoro sessions have no single duration
+  pomodoroCheckbox.addEventListener('change', () => {
+    durationLabel.style.display = pomodoroCheckbox.checked ? 'none' : '';
+  });
+  
+  // Pause/Resume button
+  pauseBtn.addEventListener('click', async () => {
+    const { pausedAt } = await getFocusState();
+    chrome.runtime.sendMessage({
+      type: pausedAt ? 'RESUME_FOCUS_SESSION' : 'PAUSE_FOCUS_SESSION'
+    }, () => {
+      window.location.reload();
+    });
+  });
+  
+  // Emergency unlock: the phrase has to be typed out, not pasted
+  unlockBtn.addEventListener('click', () => {
+    unlockForm.hidden = false;
+    unlockBtn.hidden = true;
+    unlockInput.focus();
+  });
+  unlockInput.addEventListener('paste', event => event.preventDefault());
+  unlockInput.addEventListener('drop', event => event.preventDefault());
+  unlockSubmitBtn.addEventListener('click', () => {
+    chrome.runtime.sendMessage({
+      type: 'REQUEST_EMERGENCY_UNLOCK',
+      phrase: unlockInput.value
+    }, (response) => {
+      if (!response?.success) {
+        alert(response?.error || 'Unlock failed');
+        return;
+      }
+      window.location.reload();
+    });
+  });
+  
   // End Focus button
   endBtn.addEventListener('click', () => {
     chrome.runtime.sendMessage({
@@ -162,6 +406,9 @@ function startPolling() {
     const focusState = await getFocusState();
     
     if (focusState.active && !activeUI.hidden) {
+      // The session may have been resumed from the side panel or by the maximum pause length
+      pauseBtn.textContent = focusState.pausedAt ? '▶ Resume' : '⏸ Pause';
+      updateStrictControls(focusState);
       updateCountdown(focusState);
     }
   }, 1000);
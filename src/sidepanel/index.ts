@@ -1,10 +1,26 @@
+import { PomodoroPhase } from "../types/index";
+
 // DOM element references
 const timerEl = document.getElementById("timer") as HTMLElement;
+const phaseEl = document.getElementById("phase") as HTMLElement;
+const pauseBtn = document.getElementById("pauseBtn") as HTMLButtonElement;
 const endBtn = document.getElementById("endBtn") as HTMLButtonElement;
 const blockedList = document.getElementById("blockedList") as HTMLElement;
+const blockedLabel = document.getElementById("blockedLabel") as HTMLElement;
+
+// Whether the session was paused at the last timer update
+let sessionPaused = false;
+// Set once the session is ended from here
+let sessionEnded = false;
 
 interface FocusTimeResponse {
   seconds: number;
+  /** Current phase of a Pomodoro session */
+  phase?: { phase: PomodoroPhase, label: string, seconds: number };
+  /** Set while the session is paused; the seconds left are frozen */
+  paused?: { resumeAt?: number };
+  /** The session can't be paused or ended until it's over or unlocked from the popup */
+  strict?: boolean;
 }
 
 /**
@@ -16,7 +32,28 @@ async function updateTimer(): Promise<void> {
       type: "GET_FOCUS_TIME_LEFT" 
     });
     
-    const seconds = response?.seconds || 0;
+    // Pomodoro sessions count down the current phase rather than the whole session
+    const phase = response?.phase;
+    const paused = response?.paused;
+    phaseEl.hidden = !phase && !paused;
+    phaseEl.textContent = paused ? describePause(paused.resumeAt) : phase?.label || "";
+    document.body.classList.toggle("on-break", !paused && !!phase && phase.phase !== "work");
+    document.body.classList.toggle("paused", !!paused);
+    if (sessionPaused !== !!paused) {
+      sessionPaused = !!paused;
+      loadBlockedCategories().catch(console.error);
+    }
+    pauseBtn.textContent = paused ? "Resume" : "Pause";
+    
+    // Strict sessions can only be ended early through the popup's emergency unlock
+    const strict = !!response?.strict;
+    pauseBtn.style.display = strict ? "none" : "";
+    if (!sessionEnded) {
+      endBtn.disabled = strict;
+      endBtn.textContent = strict ? "🔒 Strict Session" : "End Session";
+    }
+    
+    const seconds = phase ? phase.seconds : response?.seconds || 0;
     
     if (seconds <= 0) {
       timerEl.textContent = "COMPLETE";
@@ -31,6 +68,8 @@ async function updateTimer(): Promise<void> {
     // Visual warning when time is low
     if (seconds < 300) { // Less than 5 minutes (300 seconds)
       timerEl.style.color = "#ff9800"; // Orange
+    } else {
+      timerEl.style.color = ""; // A new Pomodoro phase started
     }
   } catch (error) {
     console.error("Error fetching time left:", error);
@@ -40,20 +79,50 @@ async function updateTimer(): Promise<void> {
 }
 
 /**
- * Load blocked categories from storage
+ * Label for a paused session, with when it resumes by itself
+ */
+function describePause(resumeAt?: number): string {
+  if (!resumeAt) return "Paused";
+  const minutes = Math.max(0, Math.ceil((resumeAt - Date.now()) / 60000));
+  return `Paused · resumes in ${minutes} min`;
+}
+
+/**
+ * Pause the session, or resume it if it's paused
+ */
+async function handlePauseToggle(): Promise<void> {
+  try {
+    const response = await chrome.runtime.sendMessage({
+      type: sessionPaused ? "RESUME_FOCUS_SESSION" : "PAUSE_FOCUS_SESSION"
+    });
+    if (response && !response.success) {
+      alert(response.error);
+    }
+    await updateTimer();
+  } catch (error) {
+    console.error("Error pausing session:", error);
+  }
+}
+
+/**
+ * Load blocked categories from storage. Nothing is blocked while the session
+ * is paused, so they're listed as blocked again once it resumes.
  */
 async function loadBlockedCategories(): Promise<void> {
   try {
     const { blockedCategories } = await chrome.storage.local.get("blockedCategories");
     
     if (!blockedList) return;
+    if (blockedLabel) {
+      blockedLabel.textContent = sessionPaused ? "Paused, nothing is blocked. Blocked again on resume:" : "Blocked categories:";
+    }
     
     if (blockedCategories && blockedCategories.length > 0) {
       blockedList.innerHTML = '';
       
       blockedCategories.forEach((category: string) => {
         const div = document.createElement('div');
-        div.className = 'context-item blocked';
+        div.className = sessionPaused ? 'context-item' : 'context-item blocked';
         div.textContent = category;
         blockedList.appendChild(div);
       });
@@ -81,16 +150,21 @@ async function handleEndSession(): Promise<void> {
       if (!workspaceName) return; // User cancelled
     }
     
-    await chrome.runtime.sendMessage({
+    const response = await chrome.runtime.sendMessage({
       type: "END_FOCUS_SESSION",
       payload: {
         saveWorkspace,
         workspaceName
       }
     });
+    if (response && !response.success) {
+      alert(response.error);
+      return;
+    }
     
     timerEl.textContent = "ENDED";
     timerEl.style.color = "#f44336"; // Red
+    sessionEnded = true;
     endBtn.disabled = true;
     endBtn.textContent = "Session Ended";
   } catch (error) {
@@ -105,9 +179,17 @@ async function handleEndSession(): Promise<void> {
 function initialize(): void {
   // Add event listener to end button
   endBtn?.addEventListener("click", handleEndSession);
+  pauseBtn?.addEventListener("click", handlePauseToggle);
   
   // Load initial data
   loadBlockedCategories().catch(console.error);
+  
+  // Pomodoro breaks change what's blocked
+  chrome.storage.onChanged.addListener((changes) => {
+    if (changes.blockedCategories) {
+      loadBlockedCategories().catch(console.error);
+    }
+  });
   updateTimer().catch(console.error);
   
   // Set up timer interval
@@ -2,6 +2,13 @@ export interface TabContextMap {
   [tabId: number]: string;
 }
 
+/** Structured signals read by a site-specific extractor */
+export interface SiteSignals {
+  source: string;     // extractor name, e.g. "youtube"
+  context?: string;   // context the site itself implies, if any
+  labels: string[];   // categories, channels, tags, subreddit names, ...
+}
+
 export interface PageData {
   url: string;
   title: string;
@@ -9,13 +16,94 @@ export interface PageData {
   metaDescription: string;
   metaKeywords: string[];
   domainCategory?: string;
+  siteSignals?: SiteSignals;
+  /** Declared page language (`<html lang>`), a hint for language detection */
+  language?: string;
 }
 
 export interface ContextResult {
   primaryContext: string;
+  /** Sub-context of the primary context the page belongs to, if any */
+  subContext?: string;
   confidence: number;
   secondaryContexts: Array<{context: string, confidence: number}>;
   features?: Record<string, number>;
+  /** True when no context cleared the confidence/margin thresholds */
+  uncertain?: boolean;
+  /** Top-scoring contexts when the result is uncertain */
+  candidates?: Array<{context: string, confidence: number}>;
+  /** Site extractor whose signals replaced the domain prior */
+  siteSource?: string;
+  /** Sub-URL override prefix that decided the context */
+  subUrlOverride?: string;
+  /** Detected page language */
+  language?: string;
+  /** Per-signal breakdown of the combined scores */
+  explanation?: ClassificationExplanation;
+}
+
+/** One classifier input's weighted contribution to each context */
+export interface SignalContribution {
+  signal: string;     // e.g. "domain", "url", "keywords", "feedback"
+  weight: number;
+  scores: Record<string, number>;   // already multiplied by the weight
+}
+
+/** A dictionary keyword found in the page text */
+export interface KeywordMatch {
+  term: string;
+  context: string;
+  weight: number;
+  count: number;
+  idf: number;
+}
+
+/** Labelled page for the offline classifier evaluation (see eval/) */
+export interface PageFixture {
+  /** Context the page should be classified as */
+  label: string;
+  pageData: PageData;
+  exportedAt?: number;
+}
+
+/** Keyword scores for a page under the stored dictionary and an unsaved draft */
+export interface KeywordPreview {
+  url: string;
+  title: string;
+  language: string;
+  saved: Record<string, number>;
+  draft: Record<string, number>;
+  /** Draft keywords found in the page text */
+  matches: KeywordMatch[];
+}
+
+/** Why the classifier scored a page the way it did */
+export interface ClassificationExplanation {
+  signals: SignalContribution[];
+  keywordMatches: KeywordMatch[];
+  domainCategory?: string;
+}
+
+/** Classification of a tab together with the stored mapping that decides grouping and blocking */
+export interface ClassificationReport {
+  url: string;
+  domain: string;
+  result?: ContextResult;
+  /** Sub-URL override that matches the page, if any */
+  override?: { prefix: string, context: string };
+  /** Context stored for the domain in domainContextMap */
+  mappedContext?: string;
+  /** domainContextMap entry the mapping came from: the host, a parent domain or a "*." pattern */
+  mappingKey?: string;
+  /** Whether the mapping comes from the built-in domain list, an imported list or was learned/set later */
+  mappingSource?: "builtin" | "list" | "learned";
+  /** Name of the imported list the mapping comes from */
+  mappingList?: string;
+  /** Context used for grouping and blocking */
+  effectiveContext?: string;
+  /** Allowed context the page also scores highly for, which keeps it from being blocked */
+  allowedBy?: string;
+  blocked: boolean;
 }
 
 export interface ContextSwitch {
@@ -40,26 +128,193 @@ export interface ParkedLink {
   timestamp: number;    // when it was parked
 }
 
+export interface ContextDefinition {
+  name: string;
+  color: chrome.tabGroups.ColorEnum;
+  description?: string;
+  /** Top-level context this one is a sub-context of (e.g. Music under Entertainment) */
+  parent?: string;
+}
+
 export interface FocusSettings {
   enabled: boolean;
   notificationsEnabled: boolean;
   switchThreshold: number;
   timeWindowMinutes: number;
   focusWindowEnabled?: boolean;
+  /** Let a page through when any allowed context scores at least secondaryAllowThreshold, not just its primary one */
+  allowSecondaryContexts?: boolean;
+  secondaryAllowThreshold?: number;
+  /** Resume a paused session automatically after this many minutes; 0 or unset waits for the user */
+  maxPauseMinutes?: number;
+  /** Temporary allowances each session can hand out from the blocked page */
+  overrideBudget?: number;
+}
+
+export interface ClassifierSettings {
+  titleWeight: number;        // weight of the page title score
+  descriptionWeight: number;  // weight of the meta description score
+  keywordsWeight: number;     // weight of the meta keywords score
+  tfidfWeight: number;        // weight of the TF-IDF keyword score of the page text
+  minConfidence: number;      // top score needed for a confident result
+  minMargin: number;          // lead over the runner-up needed for a confident result
+  askWhenUncertain: boolean;  // ask the user to pick a context for uncertain pages
+  cacheTtlMinutes: number;    // how long a page's classification is reused while its content is unchanged
+}
+
+/** Classification cache counters since the service worker started */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  expired: number;      // misses because the entry outlived its TTL
+  changed: number;      // misses because the page content changed
+  entries: number;
+  since: number;
+}
+
+/** Cache counters plus classification timing, for diagnostics */
+export interface ClassificationStats extends CacheStats {
+  classifications: number;
+  averageMs: number;
+}
+
+export interface FeedbackModel {
+  domainFeedback: Record<string, Record<string, number>>;  // domain → context → net feedback
+  tokenCounts: Record<string, Record<string, number>>;     // context → token → count
+  tokenTotals: Record<string, number>;                     // context → total token count
+  exampleCounts: Record<string, number>;                   // context → feedback examples
+}
+
+export interface DocumentFrequencies {
+  documentCount: number;               // pages counted so far
+  frequencies: Record<string, number>; // term → number of pages containing it
+}
+
+/** File format of an imported domain category list */
+export type DomainListFormat = "hosts" | "csv" | "json" | "adblock";
+
+/** Imported domain category list */
+export interface DomainList {
+  id: string;
+  name: string;
+  format: DomainListFormat;
+  /** Context for entries whose own category doesn't name a context */
+  context: string;
+  /** Whether the list wins over the user's own domain mappings */
+  precedence: "belowUser" | "aboveUser";
+  /** Domain or "*." pattern → category from the file ("" when the format has none) */
+  entries: Record<string, string>;
+  importedAt: number;
 }
 
 export interface FocusState {
   active: boolean;            // true while a focus session is running
   allowedContexts: string[];  // the contexts the user *wants* to stay in
+  excludedContexts?: string[]; // sub-contexts blocked even though their parent is allowed
   endTime?: number;           // optional timer
+  pomodoro?: PomodoroState;   // set when the session runs in work/break cycles
+  scheduleIds?: string[];     // schedule entries that started the session, if it wasn't started by hand
+  pausedAt?: number;          // set while the session is paused; timers are frozen and nothing is blocked
+  resumeAt?: number;          // when a paused session resumes by itself, if there's a maximum pause length
+  strict?: StrictState;       // set when the session can't be ended, paused or reclassified early
+  allowances?: TemporaryAllowance[]; // blocked domains let through for a few minutes
+  overridesLeft?: number;     // temporary allowances left in this session's budget
+}
+
+/** A blocked domain let through until expiresAt, for the current session only */
+export interface TemporaryAllowance {
+  domain: string;             // registrable domain; covers its subdomains too
+  expiresAt: number;
+}
+
+/** How strict sessions can be escaped before they're over */
+export interface StrictModeSettings {
+  /** Allow ending a strict session early by typing unlockPhrase and waiting out the cooldown */
+  emergencyUnlock: boolean;
+  unlockPhrase: string;
+  unlockCooldownMinutes: number;
+}
+
+/** A strict session's escape hatch, fixed when the session starts */
+export interface StrictState {
+  unlockPhrase?: string;      // unset when the session can't be unlocked early
+  unlockCooldownMinutes: number;
+  unlockAt?: number;          // when an emergency unlock the user asked for takes effect
+}
+
+/** A pause in a focus session, logged once it's over */
+export interface PauseLogEntry {
+  pausedAt: number;
+  resumedAt: number;
+  /** Resumed by the user, after the maximum pause length, or the session ended while paused */
+  endedBy: "resume" | "maxPause" | "sessionEnd";
+}
+
+/** A recurring focus session, e.g. weekdays 9:00–12:00 allowing Work and Development */
+export interface FocusSchedule {
+  id: string;
+  name: string;
+  days: number[];             // 0 = Sunday ... 6 = Saturday, the day the session starts
+  start: string;              // "HH:MM", local time
+  end: string;                // "HH:MM"; at or before start means the next day
+  allowedContexts: string[];
+  excludedContexts?: string[];
+  enabled: boolean;
+}
+
+export interface PomodoroSettings {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes: number;
+  cycles: number;             // work intervals in a session
+  longBreakEvery: number;     // a long break follows every Nth work interval
+  /** Breaks either lift blocking entirely or also allow breakContexts */
+  breakMode: "unblock" | "widen";
+  breakContexts: string[];
+}
+
+export type PomodoroPhase = "work" | "break" | "longBreak";
+
+/** Where a Pomodoro session is, with the settings it was started with */
+export interface PomodoroState extends PomodoroSettings {
+  phase: PomodoroPhase;
+  cycle: number;              // 1-based work interval, kept through the break that follows it
+  phaseEndTime: number;
 }
 
 export interface StorageData {
   extensionEnabled?: boolean;
   autoGroupEnabled?: boolean;
+  /** Whether tabs in a sub-context are grouped under their parent or in a group of their own */
+  tabGroupLevel?: "parent" | "child";
   focusSettings?: FocusSettings;
+  classifierSettings?: ClassifierSettings;
+  pomodoroSettings?: PomodoroSettings;
+  focusSchedules?: FocusSchedule[];
+  pauseLog?: PauseLogEntry[];
+  strictModeSettings?: StrictModeSettings;
+  /** A scheduled session ended by hand isn't restarted before this time */
+  scheduleSkippedUntil?: number;
+
+  /** Online model learned from classification feedback */
+  feedbackModel?: FeedbackModel;
+
+  /** Keyword document frequencies learned from classified pages */
+  documentFrequencies?: DocumentFrequencies;
   contextHistory?: Array<{context: string, url: string, timestamp: number, confidence: number}>;
   domainCategories?: Record<string, string>;
+
+  /** Domain → context mappings learned from classification or set by the user */
+  domainContextMap?: Record<string, string>;
+
+  /** Imported domain category lists, merged with domainContextMap for grouping and blocking */
+  domainLists?: DomainList[];
+
+  /** User-editable context registry (defaults to the built-in contexts) */
+  contexts?: ContextDefinition[];
+
+  /** Built-in or former context names → the context they were renamed to, so built-in signals follow renames */
+  contextAliases?: Record<string, string>;
   contextKeywords?: Record<string, Record<string, number>>;
   
   /** New single focus state object */
@@ -1,6 +1,25 @@
 const path = require("path");
 const CopyPlugin = require("copy-webpack-plugin");
 const { CleanWebpackPlugin } = require("clean-webpack-plugin");
+const fs = require("fs");
+
+const MODEL_DIR = "src/models/universal-sentence-encoder";
+const MODEL_FILES = ["model.json", "vocab.json"];
+
+/* Warn when the sentence encoder isn't there to bundle (see src/models/README.md).
+   Set REQUIRE_MODEL=1 to fail the build instead, e.g. for release builds. */
+class ModelCheckPlugin {
+  apply(compiler) {
+    compiler.hooks.thisCompilation.tap("ModelCheckPlugin", (compilation) => {
+      const missing = MODEL_FILES.filter(file => !fs.existsSync(path.resolve(__dirname, MODEL_DIR, file)));
+      if (missing.length === 0) return;
+      const message = `Sentence encoder model missing from ${MODEL_DIR} (${missing.join(", ")}). ` +
+        "The extension will fall back to keyword matching. See src/models/README.md.";
+      const { WebpackError } = compiler.webpack;
+      (process.env.REQUIRE_MODEL ? compilation.errors : compilation.warnings).push(new WebpackError(message));
+    });
+  }
+}
 
 /* Clean compiler that only wipes the folder */
 const clean = {
@@ -20,7 +39,8 @@ const ui = {
     popup: "./src/popup/popup.ts",
     options: "./src/options/options.ts",
     sidepanel: "./src/sidepanel/index.ts",
-    blocked: "./src/blocked.ts" // ← add this line
+    blocked: "./src/blocked.ts", // ← add this line
+    explain: "./src/explain.ts"
   },
   output: {
     path: path.resolve(__dirname, "dist"),
@@ -45,12 +65,15 @@ const ui = {
         { from: "src/options/options.html", to: "options.html" },
         { from: "src/sidepanel/index.html", to: "sidepanel.html" },
         { from: "src/blocked.html", to: "blocked.html" },
+        { from: "src/explain.html", to: "explain.html" },
         { from: "src/onboarding.html", to: "onboarding.html", noErrorOnMissing: true },
         { from: "manifest.json", to: "manifest.json" },
         { from: "icons", to: "icons" },
-        { from: "src/sounds", to: "sounds", noErrorOnMissing: true }
+        { from: "src/sounds", to: "sounds", noErrorOnMissing: true },
+        { from: MODEL_DIR, to: "models/universal-sentence-encoder", noErrorOnMissing: true }
       ]
-    })
+    }),
+    new ModelCheckPlugin()
   ]
 };
 